@@ -1,14 +1,64 @@
-import {CartForm, Image, Money} from '@shopify/hydrogen';
-import type {CartLineUpdateInput} from '@shopify/hydrogen/storefront-api-types';
-import {Link} from '@remix-run/react';
+import {
+  Await,
+  useFetcher,
+  useMatches,
+  type FetcherWithComponents,
+} from '@remix-run/react';
+import {Suspense, useEffect, useId, useRef, useState} from 'react';
+import {CartForm, Image, Money, useMoney} from '@shopify/hydrogen';
+import type {
+  CurrencyCode,
+  MoneyV2,
+} from '@shopify/hydrogen/storefront-api-types';
+import {Link} from './Link';
 import type {CartApiQueryFragment} from 'storefrontapi.generated';
-import {useVariantUrl} from '~/utils';
+import {
+  GIFT_MESSAGE_ATTRIBUTE,
+  GIFT_WRAP_ATTRIBUTE,
+  PICKUP_LOCATION_ATTRIBUTE,
+  getVisibleAttributes,
+  setCartAttribute,
+  toAmount,
+  type OptimisticCart,
+  type OptimisticCartLine,
+} from '~/lib/cart';
+import {
+  getCartGoalProgress,
+  isGiftLine,
+  type CartGoal,
+  type CartGoalProgress,
+  type CartGoalType,
+} from '~/data/cart-goals';
+import type {TranslationKey} from '~/lib/translations';
+import {
+  useLocalizePath,
+  useOptimisticCart,
+  useTranslation,
+  useVariantUrl,
+} from '~/utils';
 import { Button, buttonVariants } from './ui/button'
 import { Icon } from '@iconify/react';
 import { Input } from './ui/input';
 import { Card, CardContent, CardFooter } from './ui/card';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { useToast } from './ui/use-toast';
+import { SavedForLater } from './SavedForLater';
+import { CartRecommendations } from './CartRecommendations';
+import { CartShippingEstimate } from './CartShippingEstimate';
+import { SAVE_FOR_LATER_ACTION } from '~/data/saved-for-later';
+import { SHARE_CART_ACTION } from '~/data/shared-cart';
+import { QuantitySelector, getQuantityRule } from './QuantitySelector';
 
-type CartLine = CartApiQueryFragment['lines']['nodes'][0];
+type CartLine = OptimisticCartLine;
+
+/**
+ * How long the quantity input waits for more changes before updating the
+ * cart, in milliseconds
+ */
+const QUANTITY_UPDATE_DELAY = 500;
 
 type CartMainProps = {
   cart: CartApiQueryFragment | null;
@@ -16,20 +66,29 @@ type CartMainProps = {
 };
 
 export function CartMain({layout, cart}: CartMainProps) {
-  const linesCount = Boolean(cart?.lines?.nodes?.length || 0);
+  const optimisticCart = useOptimisticCart(cart);
+  const linesCount = Boolean(optimisticCart?.totalQuantity || 0);
   const withDiscount =
     cart &&
     Boolean(cart.discountCodes.filter((code) => code.applicable).length);
 
   return (
-    <div>
+    <div className="flex flex-col gap-6">
       <CartEmpty hidden={linesCount} layout={layout} />
-      <CartDetails cart={cart} layout={layout} />
+      <CartDetails cart={optimisticCart} layout={layout} />
+      <CartRecommendations cart={optimisticCart} />
+      <SavedForLater layout={layout} />
     </div>
   );
 }
 
-function CartDetails({layout, cart}: CartMainProps) {
+function CartDetails({
+  layout,
+  cart,
+}: {
+  cart: OptimisticCart | null;
+  layout: CartMainProps['layout'];
+}) {
   const cartHasItems = !!cart && cart.totalQuantity > 0;
 
   return (
@@ -39,11 +98,29 @@ function CartDetails({layout, cart}: CartMainProps) {
         ? 'lg:flex-row gap-8'
         : 'gap-3'}
     `}>
-      <CartLines lines={cart?.lines} layout={layout} />
+      {cartHasItems && layout === 'aside' && <CartGoals cart={cart} />}
+      <div className="flex flex-col w-full gap-6">
+        <CartLines lines={cart?.lines} layout={layout} />
+        {cartHasItems && (
+          <>
+            <CartPickupLocation attributes={cart.attributes} />
+            <CartGiftOptions attributes={cart.attributes} />
+            <CartNote note={cart.note} />
+          </>
+        )}
+      </div>
       {cartHasItems && layout !== 'aside' && (
-        <CartSummary cost={cart.cost} layout={layout}>
+        <CartSummary
+          cost={cart.cost}
+          discountAllocations={cart.discountAllocations}
+          layout={layout}
+          lines={cart.lines.nodes}
+        >
+          <CartGoals cart={cart} />
           <CartDiscounts discountCodes={cart.discountCodes} />
+          <CartShippingEstimate cart={cart} />
           <CartCheckoutActions checkoutUrl={cart.checkoutUrl} />
+          <CartShare />
         </CartSummary>
       )}
     </div>
@@ -55,33 +132,125 @@ function CartLines({
   layout,
 }: {
   layout: CartMainProps['layout'];
-  lines: CartApiQueryFragment['lines'] | undefined;
+  lines: OptimisticCart['lines'] | undefined;
 }) {
+  const [selected, setSelected] = useState<string[]>([]);
+
   if (!lines) return null;
 
+  // gift lines follow the cart goals, and removed lines are still mounted
+  const removableIds = lines.nodes
+    .filter((line) => line.quantity > 0 && !isGiftLine(line))
+    .map(({id}) => id);
+  const selectedIds = selected.filter((id) => removableIds.includes(id));
+  const canSelect = removableIds.length > 1;
+
+  const onSelect = (lineId: string, checked: boolean) =>
+    setSelected((ids) =>
+      checked ? [...ids, lineId] : ids.filter((id) => id !== lineId),
+    );
+
   return (
     <div className="flex flex-col w-full gap-3">
+      {canSelect && (
+        <CartLinesSelection
+          removableIds={removableIds}
+          selectedIds={selectedIds}
+          setSelected={setSelected}
+        />
+      )}
       {lines.nodes.map((line) => (
-        <CartLineItem key={line.id} line={line} layout={layout} />
+        <CartLineItem
+          key={line.id}
+          line={line}
+          layout={layout}
+          onSelect={canSelect ? onSelect : undefined}
+          selected={selectedIds.includes(line.id)}
+        />
       ))}
     </div>
   );
 }
 
+/**
+ * Selects lines to remove them in a single `LinesRemove`
+ */
+function CartLinesSelection({
+  removableIds,
+  selectedIds,
+  setSelected,
+}: {
+  removableIds: string[];
+  selectedIds: string[];
+  setSelected: (ids: string[]) => void;
+}) {
+  const {t} = useTranslation();
+  const localizePath = useLocalizePath();
+  const id = useId();
+
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <div className="flex items-center gap-2">
+        <Checkbox
+          checked={selectedIds.length === removableIds.length}
+          id={id}
+          onCheckedChange={(checked) =>
+            setSelected(checked === true ? removableIds : [])
+          }
+        />
+        <Label htmlFor={id}>{t('cart.selectAll')}</Label>
+      </div>
+      <CartForm
+        route={localizePath('/cart')}
+        action={CartForm.ACTIONS.LinesRemove}
+        inputs={{lineIds: selectedIds}}
+      >
+        {(fetcher: FetcherWithComponents<any>) => (
+          <>
+            <Button
+              disabled={!selectedIds.length}
+              type="submit"
+              variant="outline"
+            >
+              {t('cart.removeSelected', {count: selectedIds.length})}
+            </Button>
+            <CartFormErrors fetcher={fetcher} />
+          </>
+        )}
+      </CartForm>
+    </div>
+  );
+}
+
 function CartLineItem({
   layout,
   line,
+  onSelect,
+  selected = false,
 }: {
   layout: CartMainProps['layout'];
   line: CartLine;
+  onSelect?: (lineId: string, checked: boolean) => void;
+  selected?: boolean;
 }) {
   const {id, merchandise} = line;
   const {product, title, image, selectedOptions} = merchandise;
   const lineItemUrl = useVariantUrl(product.handle, selectedOptions);
+  const {t} = useTranslation();
+  const isGift = isGiftLine(line);
 
   return (
-    <Card key={id}>
+    // lines removed optimistically stay mounted until their form settles
+    <Card key={id} hidden={line.quantity === 0}>
       <CardContent className="flex items-start gap-3 pt-4">
+        {onSelect && !isGift && (
+          <Checkbox
+            aria-label={t('cart.selectLine', {title: product.title})}
+            checked={selected}
+            className="mt-1"
+            onCheckedChange={(checked) => onSelect(id, checked === true)}
+          />
+        )}
         {image && (
           <Image
             alt={title}
@@ -107,28 +276,231 @@ function CartLineItem({
           >
             <h4>{product.title}</h4>
           </Link>
+          {isGift && <Badge variant="secondary">{t('cart.freeGift')}</Badge>}
           <CartLinePrice line={line} as="span" />
+          <CartLineDiscounts line={line} />
           <ul className="m-0 text-xs list-none text-muted-foreground">
             {selectedOptions.map((option) => (
               <li key={option.name} className="m-0">
                 {option.name}: {option.value}
               </li>
             ))}
-            <li className="m-0">
-              Quantity: {line.quantity}
-            </li>
+            <CartLineSellingPlan line={line} />
+            {getVisibleAttributes(line.attributes).map(({key, value}) => (
+              <li key={key} className="m-0">
+                {key}: {value}
+              </li>
+            ))}
+            {isGift && (
+              <li className="m-0">
+                {t('cart.quantity', {quantity: line.quantity})}
+              </li>
+            )}
           </ul>
         </div>
       </CardContent>
 
-      <CardFooter className="flex justify-end pt-0">
-        <CartLineQuantity line={line} />
-      </CardFooter>
+      {/* gift lines follow the cart goals, they can't be edited */}
+      {!isGift && (
+        <CardFooter className="flex justify-end pt-0">
+          <CartLineQuantity line={line} />
+        </CardFooter>
+      )}
     </Card>
   );
 }
 
+function CartLineSellingPlan({line}: {line: CartLine}) {
+  const {sellingPlanAllocation} = line;
+  const {t} = useTranslation();
+  if (!sellingPlanAllocation) return null;
+
+  const recurringPrice =
+    sellingPlanAllocation.priceAdjustments[0]?.perDeliveryPrice;
+
+  return (
+    <li className="flex items-center gap-1 m-0">
+      <Icon icon="lucide:repeat" className="w-3 h-3" />
+      {sellingPlanAllocation.sellingPlan.name}
+      {recurringPrice && (
+        <>
+          {' · '}
+          <Money as="span" withoutTrailingZeros data={recurringPrice} />{' '}
+          {t('cart.perDelivery')}
+        </>
+      )}
+    </li>
+  );
+}
+
+function CartNote({note}: {note?: string | null}) {
+  const {t} = useTranslation();
+  const localizePath = useLocalizePath();
+  const id = useId();
+
+  return (
+    <CartForm
+      route={localizePath('/cart')}
+      action={CartForm.ACTIONS.NoteUpdate}
+      inputs={{note: note ?? ''}}
+    >
+      {(fetcher: FetcherWithComponents<any>) => (
+        <div className="flex flex-col gap-2">
+          <Label htmlFor={id}>{t('cart.note')}</Label>
+          <Textarea
+            defaultValue={note ?? ''}
+            id={id}
+            maxLength={500}
+            name="note"
+            placeholder={t('cart.notePlaceholder')}
+          />
+          <Button
+            className="self-end"
+            disabled={fetcher.state !== 'idle'}
+            size="sm"
+            type="submit"
+            variant="outline"
+          >
+            {fetcher.state !== 'idle' ? t('common.saving') : t('common.save')}
+          </Button>
+          <CartFormErrors fetcher={fetcher} />
+        </div>
+      )}
+    </CartForm>
+  );
+}
+
+/**
+ * Store picked on the product page. The attribute only tells the shop where
+ * the shopper wants to collect the order, pickup is still chosen at checkout.
+ */
+function CartPickupLocation({
+  attributes,
+}: {
+  attributes: OptimisticCart['attributes'];
+}) {
+  const {t} = useTranslation();
+  const localizePath = useLocalizePath();
+  const location = attributes.find(
+    ({key}) => key === PICKUP_LOCATION_ATTRIBUTE,
+  )?.value;
+
+  if (!location) return null;
+
+  return (
+    <div className="flex items-start justify-between gap-3 p-4 border rounded-md">
+      <div className="flex items-start gap-2">
+        <Icon icon="lucide:store" className="w-4 h-4 mt-1 flex-shrink-0" />
+        <div>
+          <p className="m-0 font-medium">
+            {t('cart.pickupLocation', {location})}
+          </p>
+          <p className="m-0 text-sm text-muted-foreground">
+            {t('cart.pickupLocationHint')}
+          </p>
+        </div>
+      </div>
+      <CartForm
+        route={localizePath('/cart')}
+        action={CartForm.ACTIONS.AttributesUpdateInput}
+        inputs={{
+          attributes: setCartAttribute(attributes, PICKUP_LOCATION_ATTRIBUTE, ''),
+        }}
+      >
+        {(fetcher: FetcherWithComponents<any>) => (
+          <>
+            <Button
+              disabled={fetcher.state !== 'idle'}
+              size="sm"
+              type="submit"
+              variant="ghost"
+            >
+              {t('cart.remove')}
+            </Button>
+            <CartFormErrors fetcher={fetcher} />
+          </>
+        )}
+      </CartForm>
+    </div>
+  );
+}
+
+/**
+ * Gift wrap and gift message, stored as cart attributes next to the
+ * attributes set elsewhere
+ */
+function CartGiftOptions({
+  attributes,
+}: {
+  attributes: OptimisticCart['attributes'];
+}) {
+  const {t} = useTranslation();
+  const localizePath = useLocalizePath();
+  const id = useId();
+  const [giftWrap, setGiftWrap] = useState(() =>
+    attributes.some(({key, value}) => key === GIFT_WRAP_ATTRIBUTE && value),
+  );
+  const [giftMessage, setGiftMessage] = useState(
+    () =>
+      attributes.find(({key}) => key === GIFT_MESSAGE_ATTRIBUTE)?.value ?? '',
+  );
+
+  // attribute updates replace the whole list, keep the other attributes
+  const nextAttributes = attributes
+    .filter(
+      ({key}) => key !== GIFT_WRAP_ATTRIBUTE && key !== GIFT_MESSAGE_ATTRIBUTE,
+    )
+    .map(({key, value}) => ({key, value: value ?? ''}));
+  if (giftWrap) {
+    nextAttributes.push({key: GIFT_WRAP_ATTRIBUTE, value: 'Yes'});
+  }
+  if (giftMessage.trim()) {
+    nextAttributes.push({key: GIFT_MESSAGE_ATTRIBUTE, value: giftMessage.trim()});
+  }
+
+  return (
+    <CartForm
+      route={localizePath('/cart')}
+      action={CartForm.ACTIONS.AttributesUpdateInput}
+      inputs={{attributes: nextAttributes}}
+    >
+      {(fetcher: FetcherWithComponents<any>) => (
+        <fieldset className="flex flex-col gap-2">
+          <legend className="mb-2 font-medium">{t('cart.giftOptions')}</legend>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              checked={giftWrap}
+              id={`${id}-wrap`}
+              onCheckedChange={(checked) => setGiftWrap(checked === true)}
+            />
+            <Label htmlFor={`${id}-wrap`}>{t('cart.giftWrap')}</Label>
+          </div>
+          <Label htmlFor={`${id}-message`}>{t('cart.giftMessage')}</Label>
+          <Textarea
+            id={`${id}-message`}
+            maxLength={250}
+            onChange={(event) => setGiftMessage(event.target.value)}
+            value={giftMessage}
+          />
+          <Button
+            className="self-end"
+            disabled={fetcher.state !== 'idle'}
+            size="sm"
+            type="submit"
+            variant="outline"
+          >
+            {fetcher.state !== 'idle' ? t('common.saving') : t('common.save')}
+          </Button>
+          <CartFormErrors fetcher={fetcher} />
+        </fieldset>
+      )}
+    </CartForm>
+  );
+}
+
 export function CartCheckoutActions({checkoutUrl}: {checkoutUrl: string}) {
+  const {t} = useTranslation();
+
   if (!checkoutUrl) return null;
 
   return (
@@ -138,84 +510,443 @@ export function CartCheckoutActions({checkoutUrl}: {checkoutUrl: string}) {
         target="_self"
         className={`w-full ${buttonVariants({ variant: "default", size: "lg" })}`}
       >
-        <p>Continue to Checkout &rarr;</p>
+        <p>{t('cart.checkout')} &rarr;</p>
       </a>
       <br />
     </div>
   );
 }
 
+/**
+ * Makes a link to the current cart that others can add to their own cart
+ */
+function CartShare() {
+  const {t} = useTranslation();
+  const localizePath = useLocalizePath();
+
+  return (
+    <CartForm
+      route={localizePath('/cart')}
+      action={SHARE_CART_ACTION}
+      inputs={{}}
+    >
+      {(fetcher: FetcherWithComponents<any>) => (
+        <div className="flex flex-col gap-2">
+          {fetcher.data?.shareUrl ? (
+            <CartShareLink shareUrl={fetcher.data.shareUrl} />
+          ) : (
+            <Button
+              disabled={fetcher.state !== 'idle'}
+              type="submit"
+              variant="outline"
+            >
+              <Icon icon="lucide:share-2" className="w-4 h-4 mr-2" />
+              {t('cart.share')}
+            </Button>
+          )}
+          <CartFormErrors fetcher={fetcher} />
+        </div>
+      )}
+    </CartForm>
+  );
+}
+
+function CartShareLink({shareUrl}: {shareUrl: string}) {
+  const {t} = useTranslation();
+  const {toast} = useToast();
+  const inputId = useId();
+
+  async function copyLink() {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      toast({title: t('cart.linkCopied')});
+    } catch {
+      // clipboard access can be denied, the link can still be copied by hand
+      document.querySelector<HTMLInputElement>(`[id="${inputId}"]`)?.select();
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-1">
+      <Label htmlFor={inputId}>{t('cart.shareLink')}</Label>
+      <div className="flex gap-2">
+        <Input
+          id={inputId}
+          onFocus={(event) => event.target.select()}
+          readOnly
+          value={shareUrl}
+        />
+        <Button
+          aria-label={t('cart.copyLink')}
+          onClick={copyLink}
+          size="icon"
+          type="button"
+          variant="outline"
+        >
+          <Icon icon="lucide:copy" className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 export function CartSummary({
   cost,
+  discountAllocations = [],
+  lines = [],
   layout,
   children = null,
 }: {
   children?: React.ReactNode;
   cost: CartApiQueryFragment['cost'];
+  /**
+   * Discounts applied to the whole order rather than to a line
+   */
+  discountAllocations?: CartApiQueryFragment['discountAllocations'];
+  /**
+   * Lines sold below their compare at price add up to the savings
+   */
+  lines?: CartLine[];
   layout: CartMainProps['layout'];
 }) {
+  const {t} = useTranslation();
+  const savings = getCompareAtSavings(lines, cost.subtotalAmount.currencyCode);
+
   return (
     <div aria-labelledby="cart-summary" className="flex flex-col w-full max-w-sm gap-2">
-      <h4>Totals</h4>
-      <dl className="flex justify-between w-full gap-2">
-        <dt>Subtotal</dt>
-        <dd>
-          {cost?.subtotalAmount?.amount ? (
-            <Money data={cost?.subtotalAmount} />
-          ) : (
-            '-'
-          )}
-        </dd>
-      </dl>
+      <h4>{t('cart.totals')}</h4>
+      <CartSummaryRow label={t('cart.subtotal')}>
+        {cost?.subtotalAmount?.amount ? (
+          <Money data={cost?.subtotalAmount} />
+        ) : (
+          '-'
+        )}
+      </CartSummaryRow>
+      {discountAllocations.map((allocation, index) => (
+        <CartSummaryRow
+          key={index}
+          className="text-primary"
+          label={<DiscountAllocationTitle allocation={allocation} />}
+        >
+          -<Money as="span" data={allocation.discountedAmount} />
+        </CartSummaryRow>
+      ))}
+      <CartSummaryRow
+        className="text-muted-foreground"
+        label={t('cart.estimatedTax')}
+      >
+        {cost.totalTaxAmount ? (
+          <Money data={cost.totalTaxAmount} />
+        ) : (
+          t('cart.calculatedAtCheckout')
+        )}
+      </CartSummaryRow>
+      <CartSummaryRow className="text-muted-foreground" label={t('cart.duties')}>
+        {cost.totalDutyAmount ? (
+          <Money data={cost.totalDutyAmount} />
+        ) : (
+          t('cart.calculatedAtCheckout')
+        )}
+      </CartSummaryRow>
+      <CartSummaryRow className="font-medium" label={t('cart.total')}>
+        {cost?.totalAmount?.amount ? <Money data={cost.totalAmount} /> : '-'}
+      </CartSummaryRow>
+      {savings && <CartSavings savings={savings} />}
       {children}
     </div>
   );
 }
 
+/**
+ * The compare at savings are already part of the line prices, so they're
+ * shown as information rather than taken off the total
+ */
+function CartSavings({savings}: {savings: MoneyV2}) {
+  const {t} = useTranslation();
+  const {localizedString} = useMoney(savings);
+
+  return (
+    <p className="text-sm text-primary">
+      {t('cart.youSave', {amount: localizedString})}
+    </p>
+  );
+}
+
+function CartSummaryRow({
+  children,
+  className = '',
+  label,
+}: {
+  children: React.ReactNode;
+  className?: string;
+  label: React.ReactNode;
+}) {
+  return (
+    <dl className={`flex justify-between w-full gap-2 ${className}`}>
+      <dt>{label}</dt>
+      <dd>{children}</dd>
+    </dl>
+  );
+}
+
+/**
+ * What the lines would cost at their compare at prices, minus what they cost
+ */
+function getCompareAtSavings(
+  lines: CartLine[],
+  currencyCode: CurrencyCode,
+): MoneyV2 | null {
+  const amount = lines.reduce((total, {cost, quantity}) => {
+    const compareAt = Number(cost.compareAtAmountPerQuantity?.amount ?? 0);
+    const price = Number(cost.amountPerQuantity.amount);
+    return compareAt > price ? total + (compareAt - price) * quantity : total;
+  }, 0);
+
+  return amount > 0
+    ? {amount: toAmount(amount, currencyCode), currencyCode}
+    : null;
+}
+
+function DiscountAllocationTitle({
+  allocation,
+}: {
+  allocation: CartApiQueryFragment['discountAllocations'][number];
+}) {
+  const {t} = useTranslation();
+  const title = 'code' in allocation ? allocation.code : allocation.title;
+  return <>{title || t('cart.discount')}</>;
+}
+
+function CartLineDiscounts({line}: {line: CartLine}) {
+  if (!line.discountAllocations.length) return null;
+
+  return (
+    <ul className="m-0 text-xs list-none text-primary">
+      {line.discountAllocations.map((allocation, index) => (
+        <li key={index} className="flex items-center gap-1 m-0">
+          <Icon icon="lucide:tag" className="w-3 h-3" />
+          <DiscountAllocationTitle allocation={allocation} />
+          {' (-'}
+          <Money as="span" withoutTrailingZeros data={allocation.discountedAmount} />
+          {')'}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+const CART_GOAL_MESSAGES: Record<
+  CartGoalType,
+  {remaining: TranslationKey; reached: TranslationKey}
+> = {
+  free_shipping: {
+    remaining: 'cart.goals.freeShipping.remaining',
+    reached: 'cart.goals.freeShipping.reached',
+  },
+  free_gift: {
+    remaining: 'cart.goals.freeGift.remaining',
+    reached: 'cart.goals.freeGift.reached',
+  },
+  discount: {
+    remaining: 'cart.goals.discount.remaining',
+    reached: 'cart.goals.discount.reached',
+  },
+};
+
+/**
+ * Progress towards the next cart goal, followed by the goals already reached.
+ * The goals are deferred by the root loader.
+ */
+export function CartGoals({cart}: {cart: OptimisticCart}) {
+  const [root] = useMatches();
+  const cartGoals = root?.data?.cartGoals as Promise<CartGoal[]> | undefined;
+  if (!cartGoals) return null;
+
+  return (
+    <Suspense>
+      <Await errorElement={null} resolve={cartGoals}>
+        {(goals) => <CartGoalsProgress cart={cart} goals={goals} />}
+      </Await>
+    </Suspense>
+  );
+}
+
+function CartGoalsProgress({
+  cart,
+  goals,
+}: {
+  cart: OptimisticCart;
+  goals: CartGoal[];
+}) {
+  const {t} = useTranslation();
+  const progress = getCartGoalProgress(cart, goals);
+  if (!progress.length) return null;
+
+  const next = progress.find(({reached}) => !reached);
+  const reached = progress.filter(({reached}) => reached);
+  const currencyCode = cart.cost.subtotalAmount.currencyCode;
+
+  return (
+    <section aria-label={t('cart.goals')} className="flex flex-col gap-2">
+      {next && (
+        <div className="flex flex-col gap-1">
+          <CartGoalMessage currencyCode={currencyCode} progress={next} />
+          <div
+            aria-valuemax={next.threshold}
+            aria-valuemin={0}
+            aria-valuenow={next.threshold - next.remaining}
+            className="h-2 overflow-hidden rounded-full bg-secondary"
+            role="progressbar"
+          >
+            <div
+              className="h-full transition-all bg-primary"
+              style={{
+                width: `${
+                  ((next.threshold - next.remaining) / next.threshold) * 100
+                }%`,
+              }}
+            />
+          </div>
+        </div>
+      )}
+      {reached.map((progress) => (
+        <p
+          key={progress.goal.id}
+          className="flex items-center gap-2 text-sm text-muted-foreground"
+        >
+          <Icon icon="lucide:check-circle" className="w-4 h-4 text-primary" />
+          <CartGoalMessage currencyCode={currencyCode} progress={progress} />
+        </p>
+      ))}
+    </section>
+  );
+}
+
+function CartGoalMessage({
+  currencyCode,
+  progress,
+}: {
+  currencyCode: CurrencyCode;
+  progress: CartGoalProgress;
+}) {
+  const {t} = useTranslation();
+  const {goal, reached, remaining} = progress;
+  const amount = useMoney({
+    amount: toAmount(remaining, currencyCode),
+    currencyCode,
+  });
+  const messages = CART_GOAL_MESSAGES[goal.type];
+
+  const message = t(reached ? messages.reached : messages.remaining, {
+    amount: amount.withoutTrailingZeros,
+    reward: goal.label ?? t('cart.goals.discount.reward'),
+  });
+
+  return reached ? <span>{message}</span> : <p className="text-sm">{message}</p>;
+}
+
 function CartLineRemoveButton({lineIds}: {lineIds: string[]}) {
+  const {t} = useTranslation();
+  const localizePath = useLocalizePath();
+
   return (
     <CartForm
-      route="/cart"
+      route={localizePath('/cart')}
       action={CartForm.ACTIONS.LinesRemove}
       inputs={{lineIds}}
     >
-      <Button type="submit" variant="outline">Remove</Button>
+      {(fetcher: FetcherWithComponents<any>) => (
+        <>
+          <Button type="submit" variant="outline">{t('cart.remove')}</Button>
+          <CartFormErrors fetcher={fetcher} />
+        </>
+      )}
     </CartForm>
   );
 }
 
+function CartLineSaveForLaterButton({line}: {line: CartLine}) {
+  const {t} = useTranslation();
+  const localizePath = useLocalizePath();
+
+  return (
+    <CartForm
+      route={localizePath('/cart')}
+      action={SAVE_FOR_LATER_ACTION}
+      inputs={{lineId: line.id}}
+    >
+      {(fetcher: FetcherWithComponents<any>) => (
+        <>
+          <Button type="submit" variant="ghost">
+            {t('cart.saveForLater')}
+          </Button>
+          <CartFormErrors fetcher={fetcher} />
+        </>
+      )}
+    </CartForm>
+  );
+}
+
+/**
+ * Quantity input sending a single `LinesUpdate` once the shopper stops
+ * changing it, clamped to the inventory of the variant
+ */
 function CartLineQuantity({line}: {line: CartLine}) {
-  if (!line || typeof line?.quantity === 'undefined') return null;
-  const {id: lineId, quantity} = line;
-  const prevQuantity = Number(Math.max(0, quantity - 1).toFixed(0));
-  const nextQuantity = Number((quantity + 1).toFixed(0));
+  const {t} = useTranslation();
+  const localizePath = useLocalizePath();
+  const fetcher = useFetcher();
+  const [quantity, setQuantity] = useState(line.quantity);
+  const timeout = useRef<ReturnType<typeof setTimeout>>();
+  const rule = getQuantityRule(line.merchandise);
+  const isPending = quantity !== line.quantity || fetcher.state !== 'idle';
+
+  // follow the cart, e.g. when a failed update rolls back
+  useEffect(() => {
+    if (!timeout.current) setQuantity(line.quantity);
+  }, [line.quantity]);
+
+  useEffect(() => () => clearTimeout(timeout.current), []);
+
+  const onChange = (nextQuantity: number) => {
+    setQuantity(nextQuantity);
+    clearTimeout(timeout.current);
+    timeout.current = undefined;
+    if (nextQuantity === line.quantity) return;
+
+    timeout.current = setTimeout(() => {
+      timeout.current = undefined;
+      fetcher.submit(
+        {
+          [CartForm.INPUT_NAME]: JSON.stringify({
+            action: CartForm.ACTIONS.LinesUpdate,
+            inputs: {lines: [{id: line.id, quantity: nextQuantity}]},
+          }),
+        },
+        {method: 'POST', action: localizePath('/cart')},
+      );
+    }, QUANTITY_UPDATE_DELAY);
+  };
 
   return (
-    <div className="flex items-center gap-2">
-      <CartLineUpdateButton lines={[{id: lineId, quantity: prevQuantity}]}>
-        <Button
-          aria-label="Decrease quantity"
-          disabled={quantity <= 1}
-          name="decrease-quantity"
-          value={prevQuantity}
-          size="icon"
-          variant="outline"
-        >
-          <Icon icon="lucide:minus" className="w-4 h-4" />
-        </Button>
-      </CartLineUpdateButton>
-      <CartLineUpdateButton lines={[{id: lineId, quantity: nextQuantity}]}>
-        <Button
-          aria-label="Increase quantity"
-          name="increase-quantity"
-          value={nextQuantity}
-          size="icon"
-          variant="outline"
-        >
-          <Icon icon="lucide:plus" className="w-4 h-4" />
-        </Button>
-      </CartLineUpdateButton>
-      <CartLineRemoveButton lineIds={[lineId]} />
+    <div className="flex flex-col items-end gap-2">
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {isPending && (
+          <Icon
+            aria-label={t('cart.updating')}
+            className="w-4 h-4 animate-spin text-muted-foreground"
+            icon="lucide:loader-2"
+          />
+        )}
+        <QuantitySelector
+          label={t('product.quantity')}
+          onChange={onChange}
+          rule={rule}
+          value={quantity}
+        />
+        <CartLineRemoveButton lineIds={[line.id]} />
+        <CartLineSaveForLaterButton line={line} />
+      </div>
+      <CartFormErrors fetcher={fetcher} />
     </div>
   );
 }
@@ -254,22 +985,22 @@ export function CartEmpty({
   hidden: boolean;
   layout?: CartMainProps['layout'];
 }) {
+  const {t} = useTranslation();
+  const localizePath = useLocalizePath();
+
   return (
     <div hidden={hidden}>
-      <p>
-        Looks like you haven&rsquo;t added anything yet, let&rsquo;s get you
-        started!
-      </p>
+      <p>{t('cart.empty')}</p>
       <Link
         to="/collections"
         onClick={() => {
           if (layout === 'aside') {
-            window.location.href = '/collections';
+            window.location.href = localizePath('/collections');
           }
         }}
         className={buttonVariants({ variant: 'link' })}
       >
-        Continue shopping
+        {t('cart.continueShopping')}
         <Icon icon="lucide:arrow-right" className="w-4 h-4 ml-2" />
       </Link>
     </div>
@@ -281,32 +1012,50 @@ export function CartDiscounts({
 }: {
   discountCodes: CartApiQueryFragment['discountCodes'];
 }) {
-  const codes: string[] =
-    discountCodes
-      ?.filter((discount) => discount.applicable)
-      ?.map(({code}) => code) || [];
+  const {t} = useTranslation();
+  const codes = discountCodes?.map(({code}) => code) || [];
+  const hasInapplicableCodes = discountCodes?.some(
+    ({applicable}) => !applicable,
+  );
 
   return (
-    <div>
-      {/* Have existing discount, display it with a remove option */}
-      <dl hidden={!codes.length}>
-        <div>
-          <dt>Discount(s)</dt>
-          <UpdateDiscountForm>
-            <div className="cart-discount">
-              <code>{codes?.join(', ')}</code>
-              &nbsp;
-              <button>Remove</button>
-            </div>
-          </UpdateDiscountForm>
-        </div>
-      </dl>
+    <div className="flex flex-col gap-2">
+      {/* Have existing discounts, display each with a remove option */}
+      {codes.length > 0 && (
+        <dl className="flex flex-col gap-2">
+          <dt>{t('cart.discounts')}</dt>
+          <dd className="flex flex-wrap gap-2">
+            {discountCodes.map((discount) => (
+              <CartDiscountCode
+                key={discount.code}
+                discount={discount}
+                discountCodes={codes}
+              />
+            ))}
+          </dd>
+        </dl>
+      )}
+      {hasInapplicableCodes && (
+        <p className="text-xs text-muted-foreground">
+          {t('cart.discountNotApplicableReason')}
+        </p>
+      )}
 
       {/* Show an input to apply a discount */}
       <UpdateDiscountForm discountCodes={codes}>
         <div className="flex items-center gap-2">
-          <Input type="text" name="discountCode" placeholder="Discount code" />
-          <Button type="submit" size="icon" className="shrink-0" variant="outline">
+          <Input
+            type="text"
+            name="discountCode"
+            placeholder={t('cart.discountCode')}
+          />
+          <Button
+            aria-label={t('cart.applyDiscount')}
+            type="submit"
+            size="icon"
+            className="shrink-0"
+            variant="outline"
+          >
             <Icon icon="lucide:check" className="w-4 h-4" />
           </Button>
         </div>
@@ -315,40 +1064,150 @@ export function CartDiscounts({
   );
 }
 
+function CartDiscountCode({
+  discount,
+  discountCodes,
+}: {
+  discount: CartApiQueryFragment['discountCodes'][number];
+  discountCodes: string[];
+}) {
+  const {t} = useTranslation();
+  const {code, applicable} = discount;
+
+  return (
+    <UpdateDiscountForm
+      discountCodes={discountCodes.filter((other) => other !== code)}
+      removedCode={code}
+    >
+      <Badge
+        className="gap-1 pr-1"
+        variant={applicable ? 'secondary' : 'outline'}
+      >
+        <Icon icon="lucide:tag" className="w-3 h-3" />
+        <code className={applicable ? undefined : 'line-through'}>{code}</code>
+        {!applicable && (
+          <span className="font-normal">{t('cart.discountNotApplicable')}</span>
+        )}
+        <button
+          aria-label={t('cart.removeDiscount', {code})}
+          className="p-0.5 rounded-full hover:bg-muted"
+          type="submit"
+        >
+          <Icon icon="lucide:x" className="w-3 h-3" />
+        </button>
+      </Badge>
+    </UpdateDiscountForm>
+  );
+}
+
 function UpdateDiscountForm({
   discountCodes,
+  removedCode,
   children,
 }: {
   discountCodes?: string[];
+  /**
+   * The code the form removes, reported once the cart is updated
+   */
+  removedCode?: string;
   children: React.ReactNode;
 }) {
+  const localizePath = useLocalizePath();
+
   return (
     <CartForm
-      route="/cart"
+      route={localizePath('/cart')}
       action={CartForm.ACTIONS.DiscountCodesUpdate}
       inputs={{
         discountCodes: discountCodes || [],
       }}
     >
-      {children}
+      {(fetcher: FetcherWithComponents<any>) => (
+        <>
+          <DiscountCodeToast fetcher={fetcher} removedCode={removedCode} />
+          {children}
+        </>
+      )}
     </CartForm>
   );
 }
 
-function CartLineUpdateButton({
-  children,
-  lines,
+/**
+ * Toasts the outcome of a discount code update as soon as the action
+ * returns. The remove forms unmount with their code once the cart
+ * revalidates, so this doesn't wait for the fetcher to settle.
+ */
+function DiscountCodeToast({
+  fetcher,
+  removedCode,
 }: {
-  children: React.ReactNode;
-  lines: CartLineUpdateInput[];
+  fetcher: FetcherWithComponents<any>;
+  removedCode?: string;
+}) {
+  const {t} = useTranslation();
+  const {toast} = useToast();
+  const {data, formData} = fetcher;
+  // only report each response once
+  const reportedData = useRef(data);
+
+  useEffect(() => {
+    if (!data || !formData || data === reportedData.current) return;
+    reportedData.current = data;
+
+    const errors: Array<{message: string}> = data.errors ?? [];
+    if (errors.length) {
+      toast({
+        variant: 'destructive',
+        title: t('cart.discountError'),
+        description: errors.map(({message}) => message).join(' '),
+      });
+      return;
+    }
+
+    if (removedCode) {
+      toast({title: t('cart.discountRemoved', {code: removedCode})});
+      return;
+    }
+
+    const code = String(formData.get('discountCode') ?? '').trim();
+    if (!code) return;
+
+    const discount = (
+      data.cart?.discountCodes as CartApiQueryFragment['discountCodes']
+    )?.find((discount) => discount.code.toLowerCase() === code.toLowerCase());
+
+    if (discount?.applicable) {
+      toast({title: t('cart.discountApplied', {code: discount.code})});
+    } else {
+      toast({
+        variant: 'destructive',
+        title: t('cart.discountNotApplied', {code}),
+        description: t('cart.discountNotApplicableReason'),
+      });
+    }
+  }, [data, formData, removedCode, t, toast]);
+
+  return null;
+}
+
+/**
+ * User errors returned by the `/cart` action for a `CartForm` submission.
+ * The optimistic cart has already rolled back when they show up.
+ */
+export function CartFormErrors({
+  fetcher,
+}: {
+  fetcher: FetcherWithComponents<any>;
 }) {
+  const {t} = useTranslation();
+  const errors: Array<{message?: string}> =
+    fetcher.state === 'idle' ? fetcher.data?.errors ?? [] : [];
+
+  if (!errors.length) return null;
+
   return (
-    <CartForm
-      route="/cart"
-      action={CartForm.ACTIONS.LinesUpdate}
-      inputs={{lines}}
-    >
-      {children}
-    </CartForm>
+    <p className="text-sm text-destructive" role="alert">
+      {errors.map(({message}) => message || t('cart.error')).join(' ')}
+    </p>
   );
 }
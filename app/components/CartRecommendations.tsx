@@ -0,0 +1,43 @@
+import {useFetcher} from '@remix-run/react';
+import {useEffect} from 'react';
+import {ProductCarousel} from './ProductCarousel';
+import type {OptimisticCart} from '~/lib/cart';
+import {getRecommendationSourceIds} from '~/data/cart-recommendations';
+import type {loader} from '~/routes/($locale).api.cart-recommendations';
+import {useLocalizePath, useTranslation} from '~/utils';
+
+/**
+ * Suggestions for the products in the cart, loaded from the cart
+ * recommendations route when the drawer or the cart page renders. Items
+ * added optimistically are left out before the cart reloads.
+ */
+export function CartRecommendations({cart}: {cart: OptimisticCart | null}) {
+  const {t} = useTranslation();
+  const localizePath = useLocalizePath();
+  const {data, load} = useFetcher<typeof loader>();
+  const sourceIds = getRecommendationSourceIds(cart?.lines.nodes ?? []);
+  const searchParams = new URLSearchParams(
+    sourceIds.map((productId) => ['productId', productId]),
+  );
+  const url = sourceIds.length
+    ? localizePath(`/api/cart-recommendations?${searchParams}`)
+    : null;
+
+  // only load again when the products driving the suggestions change
+  useEffect(() => {
+    if (url) load(url);
+  }, [url, load]);
+
+  if (!data || !cart?.totalQuantity) return null;
+
+  const cartProductIds = cart.lines.nodes
+    .filter(({quantity}) => quantity > 0)
+    .map(({merchandise}) => merchandise.product.id);
+
+  return (
+    <ProductCarousel
+      products={data.products.filter(({id}) => !cartProductIds.includes(id))}
+      title={t('cart.recommendations')}
+    />
+  );
+}
@@ -0,0 +1,241 @@
+import {Await, useFetcher, useLocation, useMatches} from '@remix-run/react';
+import {Suspense, useEffect, useId, type FormEvent} from 'react';
+import {CartForm, Money} from '@shopify/hydrogen';
+import type {CountryCode} from '@shopify/hydrogen/storefront-api-types';
+import {Icon} from '@iconify/react';
+import type {
+  CartApiQueryFragment,
+  CartShippingRatesQuery,
+  FooterQuery,
+  LocalizationCountryFragment,
+} from 'storefrontapi.generated';
+import {
+  getLocaleFromCountry,
+  localizePath,
+  stripLocaleFromPath,
+} from '~/lib/i18n';
+import type {loader as shippingRatesLoader} from '~/routes/($locale).api.cart-shipping-rates';
+import {useSelectedLocale, useTranslation} from '~/utils';
+import {CartFormErrors} from './Cart';
+import {Button} from './ui/button';
+import {Input} from './ui/input';
+import {Label} from './ui/label';
+
+type ShippingEstimateCart = Pick<CartApiQueryFragment, 'buyerIdentity'>;
+
+type DeliveryGroup = NonNullable<
+  CartShippingRatesQuery['cart']
+>['deliveryGroups']['nodes'][number];
+
+/**
+ * Estimates shipping from a country, province and zip code saved to the
+ * cart's buyer identity. The countries come from the footer's localization
+ * query, until it resolves only the cart's country can be picked. The rates
+ * are loaded from the cart shipping rates route once there is an address.
+ */
+export function CartShippingEstimate({cart}: {cart: ShippingEstimateCart}) {
+  const [root] = useMatches();
+  const footer = root?.data?.footer as Promise<FooterQuery> | undefined;
+
+  return (
+    <Suspense fallback={<ShippingEstimateForm cart={cart} countries={[]} />}>
+      <Await
+        errorElement={<ShippingEstimateForm cart={cart} countries={[]} />}
+        resolve={footer}
+      >
+        {(footer) => (
+          <ShippingEstimateForm
+            cart={cart}
+            countries={footer?.localization.availableCountries ?? []}
+          />
+        )}
+      </Await>
+    </Suspense>
+  );
+}
+
+function ShippingEstimateForm({
+  cart,
+  countries,
+}: {
+  cart: ShippingEstimateCart;
+  countries: LocalizationCountryFragment[];
+}) {
+  const {t} = useTranslation();
+  const fetcher = useFetcher();
+  const rates = useFetcher<typeof shippingRatesLoader>();
+  const {pathname, search} = useLocation();
+  const id = useId();
+  const selectedLocale = useSelectedLocale();
+  const countryCode = cart.buyerIdentity.countryCode ?? selectedLocale.country;
+  const [address] = cart.buyerIdentity.deliveryAddressPreferences;
+  const ratesUrl = address
+    ? localizePath('/api/cart-shipping-rates', selectedLocale)
+    : null;
+  const countryOptions = countries.length
+    ? [...countries].sort((a, b) => a.name.localeCompare(b.name))
+    : [{isoCode: countryCode, name: countryCode}];
+
+  // the fetcher revalidates after every cart action, which keeps the rates
+  // in step with the lines and the address
+  const {load: loadRates} = rates;
+  useEffect(() => {
+    if (ratesUrl) loadRates(ratesUrl);
+  }, [ratesUrl, loadRates]);
+
+  const onSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = new FormData(event.currentTarget);
+    const country = String(form.get('country') ?? countryCode) as CountryCode;
+    const deliveryAddress = {
+      country,
+      province: String(form.get('province') ?? '').trim(),
+      zip: String(form.get('zip') ?? '').trim(),
+    };
+
+    const formData: Record<string, string> = {
+      [CartForm.INPUT_NAME]: JSON.stringify({
+        action: CartForm.ACTIONS.BuyerIdentityUpdate,
+        inputs: {
+          buyerIdentity: {
+            countryCode: country,
+            deliveryAddressPreferences: [{deliveryAddress}],
+          },
+        },
+      }),
+    };
+
+    // prices follow the country, as when it's picked in the country selector
+    if (country !== countryCode) {
+      formData.redirectTo =
+        localizePath(
+          stripLocaleFromPath(pathname),
+          getLocaleFromCountry(country),
+        ) + search;
+    }
+
+    fetcher.submit(formData, {
+      method: 'POST',
+      action: localizePath('/cart', selectedLocale),
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <h4>{t('cart.shipping.title')}</h4>
+      <fetcher.Form className="flex flex-col gap-2" onSubmit={onSubmit}>
+        <div>
+          <Label htmlFor={`${id}-country`}>{t('footer.countryRegion')}</Label>
+          <select
+            className="flex w-full h-10 px-3 py-2 text-sm border rounded-md border-input bg-background ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            defaultValue={countryCode}
+            id={`${id}-country`}
+            key={countryCode}
+            name="country"
+          >
+            {countryOptions.map((country) => (
+              <option key={country.isoCode} value={country.isoCode}>
+                {country.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex gap-2">
+          <div className="flex-1">
+            <Label htmlFor={`${id}-province`}>
+              {t('cart.shipping.province')}
+            </Label>
+            <Input
+              autoComplete="address-level1"
+              defaultValue={address?.province ?? ''}
+              id={`${id}-province`}
+              name="province"
+            />
+          </div>
+          <div className="flex-1">
+            <Label htmlFor={`${id}-zip`}>{t('cart.shipping.zip')}</Label>
+            <Input
+              autoComplete="postal-code"
+              defaultValue={address?.zip ?? ''}
+              id={`${id}-zip`}
+              name="zip"
+              required
+            />
+          </div>
+        </div>
+        <Button
+          disabled={fetcher.state !== 'idle'}
+          type="submit"
+          variant="outline"
+        >
+          {fetcher.state !== 'idle' && (
+            <Icon
+              icon="lucide:loader-2"
+              className="w-4 h-4 mr-2 animate-spin"
+            />
+          )}
+          {t('cart.shipping.submit')}
+        </Button>
+        <CartFormErrors fetcher={fetcher} />
+      </fetcher.Form>
+      {address && rates.data && fetcher.state === 'idle' && (
+        <ShippingRates deliveryGroups={rates.data.deliveryGroups} />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Delivery options of each delivery group. Lines shipping from different
+ * locations or with different profiles are split into several groups.
+ */
+function ShippingRates({deliveryGroups}: {deliveryGroups: DeliveryGroup[]}) {
+  const {t} = useTranslation();
+  const groups = deliveryGroups.filter(
+    ({deliveryOptions}) => deliveryOptions.length,
+  );
+
+  if (!groups.length) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {t('cart.shipping.unavailable')}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {groups.map((group, index) => (
+        <div key={group.id}>
+          {groups.length > 1 && (
+            <p className="text-sm font-medium">
+              {t('cart.shipping.shipment', {number: index + 1})}
+            </p>
+          )}
+          <ul className="flex flex-col gap-1 m-0 text-sm list-none">
+            {group.deliveryOptions.map((option) => (
+              <li
+                key={option.handle}
+                className="flex justify-between gap-2 m-0"
+              >
+                <span>
+                  {option.title}
+                  {option.description && (
+                    <span className="block text-xs text-muted-foreground">
+                      {option.description}
+                    </span>
+                  )}
+                </span>
+                {Number(option.estimatedCost.amount) > 0 ? (
+                  <Money data={option.estimatedCost} />
+                ) : (
+                  <span>{t('cart.shipping.free')}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import {useFetcher, useLocation} from '@remix-run/react';
+import {CartForm} from '@shopify/hydrogen';
+import type {CountryCode} from '@shopify/hydrogen/storefront-api-types';
+import {Icon} from '@iconify/react';
+import type {
+  LocalizationCountryFragment,
+  LocalizationFragment,
+} from 'storefrontapi.generated';
+import {
+  getLocaleFromCountry,
+  localizePath,
+  stripLocaleFromPath,
+} from '~/lib/i18n';
+import {useSelectedLocale, useTranslation} from '~/utils';
+import {Button} from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+
+/**
+ * Lets the shopper pick the country they buy from. The cart's buyer identity
+ * follows the choice so prices and checkout use the country's currency, and
+ * the shopper lands on the same page in the country's locale.
+ */
+export function CountrySelector({
+  localization,
+}: {
+  localization: LocalizationFragment;
+}) {
+  const fetcher = useFetcher();
+  const {pathname, search} = useLocation();
+  const {t} = useTranslation();
+  const selectedLocale = useSelectedLocale();
+  const {country, availableCountries} = localization;
+
+  if (availableCountries.length < 2) return null;
+
+  const countries = [...availableCountries].sort((a, b) =>
+    a.name.localeCompare(b.name),
+  );
+
+  const selectCountry = (countryCode: string) => {
+    if (countryCode === country.isoCode) return;
+
+    const locale = getLocaleFromCountry(countryCode as CountryCode);
+    const redirectTo = localizePath(stripLocaleFromPath(pathname), locale);
+
+    fetcher.submit(
+      {
+        [CartForm.INPUT_NAME]: JSON.stringify({
+          action: CartForm.ACTIONS.BuyerIdentityUpdate,
+          inputs: {buyerIdentity: {countryCode}},
+        }),
+        redirectTo: redirectTo + search,
+      },
+      {method: 'POST', action: localizePath('/cart', selectedLocale)},
+    );
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          disabled={fetcher.state !== 'idle'}
+          variant="ghost"
+          aria-label={t('footer.changeCountry')}
+        >
+          <Icon icon="lucide:globe" className="w-4 h-4 mr-2" />
+          {countryLabel(country)}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="overflow-y-auto max-h-80">
+        <DropdownMenuLabel>{t('footer.countryRegion')}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={country.isoCode}
+          onValueChange={selectCountry}
+        >
+          {countries.map((availableCountry) => (
+            <DropdownMenuRadioItem
+              key={availableCountry.isoCode}
+              value={availableCountry.isoCode}
+            >
+              {countryLabel(availableCountry)}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+function countryLabel({name, currency}: LocalizationCountryFragment) {
+  return `${name} (${currency.isoCode} ${currency.symbol})`;
+}
@@ -1,14 +1,19 @@
-import {useMatches, NavLink} from '@remix-run/react';
+import {useMatches} from '@remix-run/react';
+import {NavLink} from './Link';
 import type {FooterQuery} from 'storefrontapi.generated';
 import { buttonVariants } from './ui/button';
 import ThemeToggle from './ThemeToggle';
+import {CountrySelector} from './CountrySelector';
 
-export function Footer({menu}: FooterQuery) {
+export function Footer({menu, localization}: FooterQuery) {
   return (
     <footer className="mt-4 border-t">
       <div className="container flex justify-between p-4 mx-auto">
         <FooterMenu menu={menu} />
-        <ThemeToggle />
+        <div className="flex items-center gap-2">
+          <CountrySelector localization={localization} />
+          <ThemeToggle />
+        </div>
       </div>
     </footer>
   );
@@ -1,4 +1,5 @@
-import {Await, NavLink, useMatches} from '@remix-run/react';
+import {Await, useMatches} from '@remix-run/react';
+import {NavLink} from './Link';
 import {Suspense} from 'react';
 import type {LayoutProps} from './Layout';
 import {
@@ -7,6 +8,8 @@ import {
 import { Icon } from '@iconify/react';
 import { SearchAside, MobileMenuAside, CartAside } from '~/components/Layout'
 import { Button, buttonVariants } from './ui/button';
+import { useOptimisticCart, useTranslation } from '~/utils';
+import type { CartApiQueryFragment } from 'storefrontapi.generated';
 
 type HeaderProps = Pick<LayoutProps, 'header' | 'cart' | 'isLoggedIn'>;
 
@@ -81,9 +84,12 @@ function HeaderCtas({
   isLoggedIn,
   cart,
 }: Pick<HeaderProps, 'isLoggedIn' | 'cart' | 'header'>) {
+  const {t} = useTranslation();
+
   return (
     <nav className="flex items-center gap-1 ml-auto" role="navigation">
       <NavLink
+        aria-label={t('header.account')}
         className={({ isActive, isPending }) => `
           ${buttonVariants({ variant: isActive ? 'secondary' : 'ghost', size: 'icon' })}
           ${isPending && 'animate-pulse'}
@@ -106,9 +112,16 @@ function HeaderMenuMobileToggle({
   header,
 }: Pick<HeaderProps, 'header'>) {
   const {menu} = header;
+  const {t} = useTranslation();
+
   return (
     <MobileMenuAside menu={menu}>
-      <Button variant="ghost" className="md:hidden" size="icon">
+      <Button
+        aria-label={t('header.menu')}
+        variant="ghost"
+        className="md:hidden"
+        size="icon"
+      >
         <Icon icon="lucide:align-justify" className="w-4 h-4" />
       </Button>
     </MobileMenuAside>
@@ -116,9 +129,11 @@ function HeaderMenuMobileToggle({
 }
 
 function SearchToggle() {
+  const {t} = useTranslation();
+
   return (
     <SearchAside>
-      <Button variant="ghost" size="icon" title="Search">
+      <Button variant="ghost" size="icon" title={t('header.search')}>
         <Icon icon="lucide:search" className="w-4 h-4" />
       </Button>
     </SearchAside>
@@ -126,13 +141,19 @@ function SearchToggle() {
 }
 
 type CartBadgeProps = {
-  count: number;
   cart?: HeaderProps['cart'];
+  /**
+   * The resolved cart, its item count includes pending cart actions
+   */
+  resolvedCart?: CartApiQueryFragment | null;
 }
-function CartBadge({count, cart}: CartBadgeProps) {
+function CartBadge({cart, resolvedCart = null}: CartBadgeProps) {
+  const {t} = useTranslation();
+  const count = useOptimisticCart(resolvedCart)?.totalQuantity || 0;
+
   return (
     <CartAside cart={cart}>
-      <Button variant="outline">
+      <Button aria-label={t('header.cartLabel', {count})} variant="outline">
         <Icon icon="lucide:shopping-cart" className="w-4 h-4 mr-2" />
         {count}
       </Button>
@@ -142,12 +163,11 @@ function CartBadge({count, cart}: CartBadgeProps) {
 
 function CartToggle({cart}: Pick<HeaderProps, 'cart'>) {
   return (
-    <Suspense fallback={<CartBadge count={0} cart={cart} />}>
+    <Suspense fallback={<CartBadge cart={cart} />}>
       <Await resolve={cart}>
-        {(cart) => {
-          if (!cart) return <CartBadge count={0} />;
-          return <CartBadge count={cart.totalQuantity || 0} cart={cart} />;
-        }}
+        {(resolvedCart) => (
+          <CartBadge cart={cart} resolvedCart={resolvedCart} />
+        )}
       </Await>
     </Suspense>
   );
@@ -22,11 +22,14 @@ import {
   SheetTrigger,
 } from "~/components/ui/sheet"
 import { CartSummary, CartCheckoutActions, CartDiscounts } from '~/components/Cart';
+import { CartShippingEstimate } from '~/components/CartShippingEstimate';
 import { Button } from '~/components/ui/button';
 import { Input } from '~/components/ui/input';
 import { Icon } from '@iconify/react';
 import React from 'react';
 import { Badge } from './ui/badge';
+import { useOptimisticCart, useTranslation } from '~/utils';
+import { Toaster } from './ui/toaster';
 
 export type LayoutProps = {
   cart: Promise<CartApiQueryFragment | null>;
@@ -51,9 +54,12 @@ export function Layout({
       </main>
       <Suspense>
         <Await resolve={footer}>
-          {(footer) => <Footer menu={footer.menu} />}
+          {(footer) => (
+            <Footer menu={footer.menu} localization={footer.localization} />
+          )}
         </Await>
       </Suspense>
+      <Toaster />
     </div>
   );
 }
@@ -63,6 +69,8 @@ type CartAsideProps = {
   children: React.ReactNode;
 }
 export function CartAside({cart, children}: CartAsideProps) {
+  const {t} = useTranslation();
+
   return (
     <Sheet>
       <SheetTrigger asChild>
@@ -72,31 +80,24 @@ export function CartAside({cart, children}: CartAsideProps) {
       <SheetContent className="flex flex-col">
         <SheetHeader>
           <SheetTitle className="flex items-center gap-2">
-            Cart
+            {t('cart.title')}
             {cart && (
               <Badge variant="secondary">
                 <Await resolve={cart}>
-                  {(cart) => cart?.totalQuantity}
+                  {(cart) => <CartAsideQuantity cart={cart} />}
                 </Await>
               </Badge>
             )}
           </SheetTitle>
           <SheetClose />
         </SheetHeader>
-        <Suspense fallback={<p>Loading cart ...</p>}>
+        <Suspense fallback={<p>{t('cart.loading')}</p>}>
           <Await resolve={cart}>
             {(cart) => {
               return (
                 <>
                   <CartMain cart={cart} layout="aside" />
-                  {cart && (
-                    <SheetFooter className="mt-auto">
-                      <CartSummary cost={cart.cost} layout="aside">
-                        <CartDiscounts discountCodes={cart.discountCodes} />
-                        <CartCheckoutActions checkoutUrl={cart.checkoutUrl} />
-                      </CartSummary>
-                    </SheetFooter>
-                  )}
+                  {cart && <CartAsideFooter cart={cart} />}
                 </>
               );
             }}
@@ -107,10 +108,36 @@ export function CartAside({cart, children}: CartAsideProps) {
   );
 }
 
+function CartAsideQuantity({cart}: {cart: CartApiQueryFragment | null}) {
+  const optimisticCart = useOptimisticCart(cart);
+  return <>{optimisticCart?.totalQuantity}</>;
+}
+
+function CartAsideFooter({cart}: {cart: CartApiQueryFragment}) {
+  const optimisticCart = useOptimisticCart(cart) ?? cart;
+
+  return (
+    <SheetFooter className="mt-auto">
+      <CartSummary
+        cost={optimisticCart.cost}
+        discountAllocations={cart.discountAllocations}
+        layout="aside"
+        lines={optimisticCart.lines.nodes}
+      >
+        <CartDiscounts discountCodes={cart.discountCodes} />
+        <CartShippingEstimate cart={cart} />
+        <CartCheckoutActions checkoutUrl={cart.checkoutUrl} />
+      </CartSummary>
+    </SheetFooter>
+  );
+}
+
 type SearchAsideProps = {
   children: React.ReactNode;
 }
 export function SearchAside({ children }: SearchAsideProps) {
+  const {t} = useTranslation();
+
   return (
     <Sheet>
       <SheetTrigger asChild>
@@ -118,7 +145,7 @@ export function SearchAside({ children }: SearchAsideProps) {
       </SheetTrigger>
       <SheetContent>
         <SheetHeader>
-          <SheetTitle>Search</SheetTitle>
+          <SheetTitle>{t('header.search')}</SheetTitle>
         </SheetHeader>
 
         <PredictiveSearchForm>
@@ -128,7 +155,7 @@ export function SearchAside({ children }: SearchAsideProps) {
                 name="q"
                 onChange={fetchResults}
                 onFocus={fetchResults}
-                placeholder="Search"
+                placeholder={t('header.search')}
                 ref={inputRef}
                 type="search"
                 className="w-full"
@@ -151,6 +178,7 @@ type MobileMenuAsideProps = {
   children: React.ReactNode;
 }
 export function MobileMenuAside({menu, children}: MobileMenuAsideProps) {
+  const {t} = useTranslation();
   const [mobileMenuOpen, setMobileMenuOpen] = React.useState(false)
 
   return (
@@ -161,7 +189,7 @@ export function MobileMenuAside({menu, children}: MobileMenuAsideProps) {
 
       <SheetContent side="left">
         <SheetHeader>
-          <SheetTitle>Menu</SheetTitle>
+          <SheetTitle>{t('header.menu')}</SheetTitle>
         </SheetHeader>
         <div className="py-2">
           <HeaderMenu menu={menu} viewport="mobile" onNavLinkClick={() => setMobileMenuOpen(false)} />
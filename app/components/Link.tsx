@@ -0,0 +1,44 @@
+import {forwardRef} from 'react';
+import {
+  Link as RemixLink,
+  NavLink as RemixNavLink,
+  type LinkProps,
+  type NavLinkProps,
+} from '@remix-run/react';
+import {useLocalizePath} from '~/utils';
+
+/**
+ * Remix `Link` that keeps the shopper in their locale by prefixing internal
+ * paths, e.g. `/cart` becomes `/es-es/cart`
+ */
+export const Link = forwardRef<HTMLAnchorElement, LinkProps>(function Link(
+  {to, ...props},
+  ref,
+) {
+  const localizePath = useLocalizePath();
+
+  return (
+    <RemixLink
+      ref={ref}
+      to={typeof to === 'string' ? localizePath(to) : to}
+      {...props}
+    />
+  );
+});
+
+/**
+ * Remix `NavLink` that keeps the shopper in their locale
+ */
+export const NavLink = forwardRef<HTMLAnchorElement, NavLinkProps>(
+  function NavLink({to, ...props}, ref) {
+    const localizePath = useLocalizePath();
+
+    return (
+      <RemixNavLink
+        ref={ref}
+        to={typeof to === 'string' ? localizePath(to) : to}
+        {...props}
+      />
+    );
+  },
+);
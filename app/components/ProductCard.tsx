@@ -0,0 +1,90 @@
+import type {FetcherWithComponents} from '@remix-run/react';
+import {Link} from './Link';
+import {CartForm, Image, Money} from '@shopify/hydrogen';
+import type {ProductCardFragment} from 'storefrontapi.generated';
+import {Icon} from '@iconify/react';
+import {useLocalizePath, useTranslation, useVariantUrl} from '~/utils';
+import {Button} from './ui/button';
+import {CartFormErrors} from './Cart';
+import {OPTIMISTIC_PRICES_INPUT} from '~/lib/cart';
+
+export function ProductCard({
+  product,
+  loading,
+  quickAdd = false,
+}: {
+  product: ProductCardFragment;
+  loading?: 'eager' | 'lazy';
+  /**
+   * Show a button adding the product's first variant straight to the cart
+   */
+  quickAdd?: boolean;
+}) {
+  const variant = product.variants.nodes[0];
+  const variantUrl = useVariantUrl(product.handle, variant.selectedOptions);
+  return (
+    <div className="flex flex-col gap-2">
+      <Link
+        className="flex flex-col gap-2"
+        key={product.id}
+        prefetch="intent"
+        to={variantUrl}
+      >
+        {product.featuredImage && (
+          <Image
+            alt={product.featuredImage.altText || product.title}
+            aspectRatio='1/1'
+            data={product.featuredImage}
+            loading={loading}
+            sizes="(min-width: 45em) 400px, 100vw"
+            className="object-cover w-full h-full"
+          />
+        )}
+        <div>
+          <h4>{product.title}</h4>
+          <Money data={product.priceRange.minVariantPrice} className="text-sm" />
+        </div>
+      </Link>
+      {quickAdd && <QuickAddButton variant={variant} />}
+    </div>
+  );
+}
+
+function QuickAddButton({
+  variant,
+}: {
+  variant: ProductCardFragment['variants']['nodes'][0];
+}) {
+  const {t} = useTranslation();
+  const localizePath = useLocalizePath();
+
+  return (
+    <CartForm
+      route={localizePath('/cart')}
+      action={CartForm.ACTIONS.LinesAdd}
+      inputs={{
+        lines: [{merchandiseId: variant.id, quantity: 1}],
+        [OPTIMISTIC_PRICES_INPUT]: {[variant.id]: variant.price},
+      }}
+    >
+      {(fetcher: FetcherWithComponents<any>) => (
+        <>
+          <Button
+            className="w-full"
+            disabled={!variant.availableForSale || fetcher.state !== 'idle'}
+            size="sm"
+            type="submit"
+            variant="outline"
+          >
+            {fetcher.state !== 'idle'
+              ? (<Icon icon="lucide:loader-2" className="w-4 h-4 mr-2 animate-spin" />)
+              : (<Icon icon="lucide:plus" className="w-4 h-4 mr-2" />)
+            }
+            {variant.availableForSale ? t('product.quickAdd') : t('product.soldOut')}
+          </Button>
+          <CartFormErrors fetcher={fetcher} />
+        </>
+      )}
+    </CartForm>
+  );
+}
@@ -0,0 +1,70 @@
+import {useRef} from 'react';
+import type {ProductCardFragment} from 'storefrontapi.generated';
+import {Icon} from '@iconify/react';
+import {ProductCard} from './ProductCard';
+import {Button} from './ui/button';
+import {useTranslation} from '~/utils';
+
+type ProductCarouselProps = {
+  products: ProductCardFragment[];
+  title: string;
+  quickAdd?: boolean;
+};
+
+/**
+ * A horizontally scrolling rail of product cards
+ */
+export function ProductCarousel({
+  products,
+  title,
+  quickAdd = true,
+}: ProductCarouselProps) {
+  const {t} = useTranslation();
+  const trackRef = useRef<HTMLDivElement>(null);
+
+  if (!products.length) return null;
+
+  const scroll = (direction: 1 | -1) => {
+    const track = trackRef.current;
+    if (!track) return;
+    track.scrollBy({left: direction * track.clientWidth, behavior: 'smooth'});
+  };
+
+  return (
+    <section aria-label={title} className="flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3>{title}</h3>
+        {products.length > 1 && (
+          <div className="flex gap-1">
+            <Button
+              aria-label={t('product.carousel.scrollLeft')}
+              onClick={() => scroll(-1)}
+              size="icon"
+              variant="outline"
+            >
+              <Icon icon="lucide:chevron-left" className="w-4 h-4" />
+            </Button>
+            <Button
+              aria-label={t('product.carousel.scrollRight')}
+              onClick={() => scroll(1)}
+              size="icon"
+              variant="outline"
+            >
+              <Icon icon="lucide:chevron-right" className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+      <div
+        className="grid grid-flow-col auto-cols-[minmax(10rem,14rem)] gap-4 overflow-x-auto snap-x snap-mandatory pb-2"
+        ref={trackRef}
+      >
+        {products.map((product) => (
+          <div className="snap-start" key={product.id}>
+            <ProductCard product={product} loading="lazy" quickAdd={quickAdd} />
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,408 @@
+import {useCallback, useRef, useState} from 'react';
+import type {KeyboardEvent, MouseEvent, TouchEvent} from 'react';
+import {Image, MediaFile} from '@shopify/hydrogen';
+import type {MediaFragment} from 'storefrontapi.generated';
+import {Icon} from '@iconify/react';
+import {useTranslation} from '~/utils';
+import {Button} from './ui/button';
+import {Dialog, DialogContent, DialogTitle} from './ui/dialog';
+
+type GalleryImage = {
+  id?: string | null;
+  url: string;
+};
+
+type ProductGalleryProps = {
+  media: MediaFragment[];
+  /**
+   * The selected variant's image. When it changes, the gallery
+   * moves to the slide showing that image.
+   */
+  selectedImage?: GalleryImage | null;
+};
+
+/**
+ * Minimum horizontal distance (px) a touch must travel to count as a swipe
+ */
+const SWIPE_THRESHOLD = 50;
+
+export function ProductGallery({media, selectedImage}: ProductGalleryProps) {
+  const {t} = useTranslation();
+  const [activeIndex, setActiveIndex] = useState(() =>
+    Math.max(0, findMediaIndex(media, selectedImage)),
+  );
+  const [lightboxOpen, setLightboxOpen] = useState(false);
+
+  // follow the selected variant's image. Revalidations hand over new objects
+  // for the same image, which mustn't move the gallery away from the slide
+  // the shopper is looking at, so only a new image id moves it.
+  const selectedImageId = selectedImage?.id ?? selectedImage?.url;
+  const [followedImageId, setFollowedImageId] = useState(selectedImageId);
+  if (selectedImageId !== followedImageId) {
+    setFollowedImageId(selectedImageId);
+    const index = findMediaIndex(media, selectedImage);
+    if (index !== -1) setActiveIndex(index);
+  }
+
+  const goTo = useCallback(
+    (index: number) => {
+      if (!media.length) return;
+      setActiveIndex((index + media.length) % media.length);
+    },
+    [media.length],
+  );
+  const previous = useCallback(() => goTo(activeIndex - 1), [activeIndex, goTo]);
+  const next = useCallback(() => goTo(activeIndex + 1), [activeIndex, goTo]);
+  const swipeHandlers = useSwipe({onSwipeLeft: next, onSwipeRight: previous});
+
+  if (!media.length) {
+    return <div className="product-image" />;
+  }
+
+  const activeMedia = media[activeIndex] ?? media[0];
+
+  function onKeyDown(event: KeyboardEvent<HTMLDivElement>) {
+    if (event.key === 'ArrowLeft') {
+      event.preventDefault();
+      previous();
+    } else if (event.key === 'ArrowRight') {
+      event.preventDefault();
+      next();
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div
+        aria-label={t('product.gallery.label')}
+        aria-roledescription="carousel"
+        className="relative outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        onKeyDown={onKeyDown}
+        role="region"
+        tabIndex={0}
+        {...swipeHandlers}
+      >
+        <div
+          aria-label={t('product.gallery.slide', {
+            number: activeIndex + 1,
+            total: media.length,
+          })}
+          aria-roledescription="slide"
+          role="group"
+        >
+          <GalleryMedia
+            media={activeMedia}
+            onZoom={() => setLightboxOpen(true)}
+          />
+        </div>
+        {media.length > 1 && (
+          <>
+            <Button
+              aria-label={t('product.gallery.previous')}
+              className="absolute -translate-y-1/2 left-2 top-1/2"
+              onClick={previous}
+              size="icon"
+              variant="secondary"
+            >
+              <Icon icon="lucide:chevron-left" className="w-4 h-4" />
+            </Button>
+            <Button
+              aria-label={t('product.gallery.next')}
+              className="absolute -translate-y-1/2 right-2 top-1/2"
+              onClick={next}
+              size="icon"
+              variant="secondary"
+            >
+              <Icon icon="lucide:chevron-right" className="w-4 h-4" />
+            </Button>
+          </>
+        )}
+      </div>
+      {media.length > 1 && (
+        <GalleryThumbnails
+          activeIndex={activeIndex}
+          media={media}
+          onSelect={goTo}
+        />
+      )}
+      <GalleryLightbox
+        activeIndex={activeIndex}
+        media={media}
+        onNext={next}
+        onOpenChange={setLightboxOpen}
+        onPrevious={previous}
+        open={lightboxOpen}
+      />
+    </div>
+  );
+}
+
+function GalleryMedia({
+  media,
+  onZoom,
+}: {
+  media: MediaFragment;
+  onZoom: () => void;
+}) {
+  const {t} = useTranslation();
+
+  if (media.__typename === 'MediaImage') {
+    if (!media.image) return null;
+    return (
+      <button
+        aria-label={t('product.gallery.zoom')}
+        className="block w-full cursor-zoom-in"
+        onClick={onZoom}
+        type="button"
+      >
+        <Image
+          alt={media.alt || t('product.gallery.image')}
+          aspectRatio="1/1"
+          data={media.image}
+          key={media.id}
+          sizes="(min-width: 45em) 50vw, 100vw"
+          className="object-cover w-full h-full"
+        />
+      </button>
+    );
+  }
+
+  return (
+    <div className="overflow-hidden rounded aspect-square [&>*]:w-full [&>*]:h-full">
+      <MediaFile
+        data={media}
+        key={media.id}
+        mediaOptions={{
+          video: {
+            controls: true,
+            playsInline: true,
+            preload: 'metadata',
+            className: 'object-cover',
+          },
+          externalVideo: {
+            className: 'w-full h-full',
+          },
+          modelViewer: {
+            cameraControls: true,
+            ar: true,
+            alt: media.alt || t('product.gallery.model'),
+            className: 'w-full h-full',
+          },
+        }}
+      />
+    </div>
+  );
+}
+
+function GalleryThumbnails({
+  activeIndex,
+  media,
+  onSelect,
+}: {
+  activeIndex: number;
+  media: MediaFragment[];
+  onSelect: (index: number) => void;
+}) {
+  const {t} = useTranslation();
+
+  return (
+    <div className="flex gap-2 pb-1 overflow-x-auto">
+      {media.map((item, index) => {
+        const isActive = index === activeIndex;
+        return (
+          <button
+            aria-current={isActive}
+            aria-label={t('product.gallery.show', {number: index + 1})}
+            className={`
+              relative shrink-0 w-16 h-16 overflow-hidden rounded border-2 transition-colors
+              ${isActive ? 'border-primary' : 'border-transparent opacity-70 hover:opacity-100'}
+            `}
+            key={item.id}
+            onClick={() => onSelect(index)}
+            type="button"
+          >
+            {item.previewImage?.url && (
+              <img
+                alt={item.alt || ''}
+                className="object-cover w-full h-full"
+                loading="lazy"
+                src={`${item.previewImage.url}${
+                  item.previewImage.url.includes('?') ? '&' : '?'
+                }width=128`}
+              />
+            )}
+            <MediaTypeIcon media={item} />
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+function MediaTypeIcon({media}: {media: MediaFragment}) {
+  const icon = {
+    MediaImage: null,
+    Video: 'lucide:play',
+    ExternalVideo: 'lucide:play',
+    Model3d: 'lucide:box',
+  }[media.__typename];
+
+  if (!icon) return null;
+
+  return (
+    <span className="absolute inset-0 flex items-center justify-center bg-black/30">
+      <Icon icon={icon} className="w-5 h-5 text-white" />
+    </span>
+  );
+}
+
+function GalleryLightbox({
+  activeIndex,
+  media,
+  onNext,
+  onOpenChange,
+  onPrevious,
+  open,
+}: {
+  activeIndex: number;
+  media: MediaFragment[];
+  onNext: () => void;
+  onOpenChange: (open: boolean) => void;
+  onPrevious: () => void;
+  open: boolean;
+}) {
+  const {t} = useTranslation();
+  const activeMedia = media[activeIndex];
+  const swipeHandlers = useSwipe({onSwipeLeft: onNext, onSwipeRight: onPrevious});
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="max-w-5xl"
+        onKeyDown={(event) => {
+          if (event.key === 'ArrowLeft') onPrevious();
+          if (event.key === 'ArrowRight') onNext();
+        }}
+      >
+        <DialogTitle className="sr-only">
+          {activeMedia?.alt || t('product.gallery.label')}
+        </DialogTitle>
+        <div className="relative" {...swipeHandlers}>
+          {activeMedia?.__typename === 'MediaImage' && activeMedia.image ? (
+            <ZoomableImage
+              alt={activeMedia.alt || t('product.gallery.image')}
+              key={activeMedia.id}
+              url={activeMedia.image.url}
+            />
+          ) : (
+            activeMedia && (
+              <GalleryMedia media={activeMedia} onZoom={() => undefined} />
+            )
+          )}
+        </div>
+        {media.length > 1 && (
+          <div className="flex items-center justify-between">
+            <Button
+              aria-label={t('product.gallery.previous')}
+              onClick={onPrevious}
+              size="icon"
+              variant="outline"
+            >
+              <Icon icon="lucide:chevron-left" className="w-4 h-4" />
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              {activeIndex + 1} / {media.length}
+            </span>
+            <Button
+              aria-label={t('product.gallery.next')}
+              onClick={onNext}
+              size="icon"
+              variant="outline"
+            >
+              <Icon icon="lucide:chevron-right" className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Full resolution image that zooms in around the clicked point
+ */
+function ZoomableImage({alt, url}: {alt: string; url: string}) {
+  const {t} = useTranslation();
+  const [zoomed, setZoomed] = useState(false);
+  const [origin, setOrigin] = useState('50% 50%');
+
+  function onClick(event: MouseEvent<HTMLButtonElement>) {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * 100;
+    const y = ((event.clientY - rect.top) / rect.height) * 100;
+    setOrigin(`${x}% ${y}%`);
+    setZoomed((zoomed) => !zoomed);
+  }
+
+  return (
+    <button
+      aria-label={
+        zoomed ? t('product.gallery.zoomOut') : t('product.gallery.zoomIn')
+      }
+      className={`block w-full overflow-hidden ${
+        zoomed ? 'cursor-zoom-out' : 'cursor-zoom-in'
+      }`}
+      onClick={onClick}
+      type="button"
+    >
+      <img
+        alt={alt}
+        className="object-contain w-full max-h-[75vh] transition-transform duration-200"
+        src={url}
+        style={{
+          transform: zoomed ? 'scale(2)' : 'scale(1)',
+          transformOrigin: origin,
+        }}
+      />
+    </button>
+  );
+}
+
+function useSwipe({
+  onSwipeLeft,
+  onSwipeRight,
+}: {
+  onSwipeLeft: () => void;
+  onSwipeRight: () => void;
+}) {
+  const startX = useRef<number | null>(null);
+
+  return {
+    onTouchStart: (event: TouchEvent) => {
+      startX.current = event.touches[0]?.clientX ?? null;
+    },
+    onTouchEnd: (event: TouchEvent) => {
+      if (startX.current === null) return;
+      const deltaX = (event.changedTouches[0]?.clientX ?? 0) - startX.current;
+      startX.current = null;
+      if (Math.abs(deltaX) < SWIPE_THRESHOLD) return;
+      if (deltaX < 0) {
+        onSwipeLeft();
+      } else {
+        onSwipeRight();
+      }
+    },
+  };
+}
+
+function findMediaIndex(
+  media: MediaFragment[],
+  image?: GalleryImage | null,
+) {
+  if (!image) return -1;
+  return media.findIndex(
+    (item) =>
+      item.__typename === 'MediaImage' &&
+      (item.image?.id === image.id || item.image?.url === image.url),
+  );
+}
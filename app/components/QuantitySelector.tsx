@@ -0,0 +1,142 @@
+import {useEffect, useState} from 'react';
+import {Icon} from '@iconify/react';
+import {Button} from './ui/button';
+import {Input} from './ui/input';
+import {useTranslation} from '~/utils';
+
+/**
+ * Mirrors the shape of the Storefront API `QuantityRule` object
+ * @see https://shopify.dev/docs/api/storefront/latest/objects/QuantityRule
+ */
+export type QuantityRule = {
+  minimum: number;
+  maximum: number | null;
+  increment: number;
+};
+
+export const DEFAULT_QUANTITY_RULE: QuantityRule = {
+  minimum: 1,
+  maximum: null,
+  increment: 1,
+};
+
+/**
+ * Builds the quantity rule for a variant. `quantityRule` is only exposed from
+ * Storefront API 2023-10, so until then the rule defaults to 1/∞/1 and the
+ * maximum is capped by the tracked inventory, when there is one.
+ */
+export function getQuantityRule(variant?: {
+  quantityAvailable?: number | null;
+  quantityRule?: Partial<QuantityRule> | null;
+} | null): QuantityRule {
+  const rule = {...DEFAULT_QUANTITY_RULE, ...variant?.quantityRule};
+  const available = variant?.quantityAvailable;
+
+  if (typeof available === 'number' && available > 0) {
+    rule.maximum =
+      rule.maximum === null ? available : Math.min(rule.maximum, available);
+  }
+
+  return rule;
+}
+
+/**
+ * Snaps a quantity to the closest valid value for a quantity rule
+ */
+export function clampQuantity(quantity: number, rule: QuantityRule) {
+  const {minimum, maximum, increment} = rule;
+  if (!Number.isFinite(quantity)) return minimum;
+
+  let value = Math.max(minimum, Math.round(quantity));
+  // quantities must be a multiple of the increment, counted from the minimum
+  value = minimum + Math.round((value - minimum) / increment) * increment;
+
+  if (maximum !== null && value > maximum) {
+    value = minimum + Math.floor((maximum - minimum) / increment) * increment;
+  }
+
+  return Math.max(minimum, value);
+}
+
+type QuantitySelectorProps = {
+  disabled?: boolean;
+  id?: string;
+  label?: string;
+  onChange: (quantity: number) => void;
+  rule?: QuantityRule;
+  value: number;
+};
+
+export function QuantitySelector({
+  disabled,
+  id,
+  label,
+  onChange,
+  rule = DEFAULT_QUANTITY_RULE,
+  value,
+}: QuantitySelectorProps) {
+  const {t} = useTranslation();
+  const inputLabel = label ?? t('product.quantity');
+  // keep the raw text so the shopper can clear the field while typing
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commit = (quantity: number) => {
+    const clamped = clampQuantity(quantity, rule);
+    setDraft(String(clamped));
+    if (clamped !== value) onChange(clamped);
+  };
+
+  const canDecrease = !disabled && value - rule.increment >= rule.minimum;
+  const canIncrease =
+    !disabled &&
+    (rule.maximum === null || value + rule.increment <= rule.maximum);
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        aria-label={t('product.decreaseQuantity', {label: inputLabel})}
+        disabled={!canDecrease}
+        onClick={() => commit(value - rule.increment)}
+        size="icon"
+        type="button"
+        variant="outline"
+      >
+        <Icon icon="lucide:minus" className="w-4 h-4" />
+      </Button>
+      <Input
+        aria-label={inputLabel}
+        className="w-16 text-center"
+        disabled={disabled}
+        id={id}
+        inputMode="numeric"
+        max={rule.maximum ?? undefined}
+        min={rule.minimum}
+        onBlur={() => commit(Number(draft))}
+        onChange={(event) => setDraft(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter') {
+            event.preventDefault();
+            commit(Number(draft));
+          }
+        }}
+        step={rule.increment}
+        type="number"
+        value={draft}
+      />
+      <Button
+        aria-label={t('product.increaseQuantity', {label: inputLabel})}
+        disabled={!canIncrease}
+        onClick={() => commit(value + rule.increment)}
+        size="icon"
+        type="button"
+        variant="outline"
+      >
+        <Icon icon="lucide:plus" className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import {Await, useFetchers, useMatches} from '@remix-run/react';
+import type {FetcherWithComponents} from '@remix-run/react';
+import {Suspense} from 'react';
+import {CartForm, Image, Money} from '@shopify/hydrogen';
+import {Link} from './Link';
+import {Button} from './ui/button';
+import {Card, CardContent, CardFooter} from './ui/card';
+import {CartFormErrors} from './Cart';
+import {
+  MOVE_TO_CART_ACTION,
+  REMOVE_SAVED_ACTION,
+  type SavedForLaterItem as SavedItem,
+} from '~/data/saved-for-later';
+import {getPendingCartActions, OPTIMISTIC_PRICES_INPUT} from '~/lib/cart';
+import {useLocalizePath, useTranslation, useVariantUrl} from '~/utils';
+
+type SavedForLaterProps = {
+  layout: 'page' | 'aside';
+};
+
+/**
+ * Lines saved for later, loaded by the root loader
+ */
+export function SavedForLater({layout}: SavedForLaterProps) {
+  const [root] = useMatches();
+  const {t} = useTranslation();
+  const savedForLater = root?.data?.savedForLater as
+    | Promise<SavedItem[]>
+    | undefined;
+
+  if (!savedForLater) return null;
+
+  return (
+    <Suspense>
+      <Await resolve={savedForLater}>
+        {(items) =>
+          items.length ? (
+            <section className="flex flex-col gap-3">
+              <h4>{t('cart.savedForLater')}</h4>
+              {items.map((item) => (
+                <SavedForLaterItem key={item.id} item={item} layout={layout} />
+              ))}
+            </section>
+          ) : null
+        }
+      </Await>
+    </Suspense>
+  );
+}
+
+function SavedForLaterItem({
+  item,
+  layout,
+}: SavedForLaterProps & {
+  item: SavedItem;
+}) {
+  const {t} = useTranslation();
+  const localizePath = useLocalizePath();
+  const {variant} = item;
+  const url = useVariantUrl(variant.product.handle, variant.selectedOptions);
+  const fetchers = useFetchers();
+
+  // stays mounted while its forms are pending so they aren't aborted
+  const isPending = getPendingCartActions(fetchers).some(
+    ({action, inputs}) =>
+      (action === MOVE_TO_CART_ACTION || action === REMOVE_SAVED_ACTION) &&
+      inputs.savedLineId === item.id,
+  );
+
+  return (
+    <Card hidden={isPending}>
+      <CardContent className="flex items-start gap-3 pt-4">
+        {variant.image && (
+          <Image
+            alt={variant.title}
+            aspectRatio="1/1"
+            data={variant.image}
+            height={64}
+            loading="lazy"
+            width={64}
+            className="flex-shrink-0"
+          />
+        )}
+        <div>
+          <Link
+            prefetch="intent"
+            to={url}
+            onClick={() => {
+              if (layout === 'aside') {
+                // close the drawer
+                window.location.href = url;
+              }
+            }}
+          >
+            <h4>{variant.product.title}</h4>
+          </Link>
+          <Money as="span" withoutTrailingZeros data={variant.price} />
+          <ul className="m-0 text-xs list-none text-muted-foreground">
+            {variant.selectedOptions.map((option) => (
+              <li key={option.name} className="m-0">
+                {option.name}: {option.value}
+              </li>
+            ))}
+            {item.attributes?.map(({key, value}) => (
+              <li key={key} className="m-0">
+                {key}: {value}
+              </li>
+            ))}
+            <li className="m-0">
+              {t('cart.quantity', {quantity: item.quantity})}
+            </li>
+          </ul>
+        </div>
+      </CardContent>
+      <CardFooter className="flex justify-end gap-2 pt-0">
+        <CartForm
+          route={localizePath('/cart')}
+          action={REMOVE_SAVED_ACTION}
+          inputs={{savedLineId: item.id}}
+        >
+          <Button type="submit" variant="ghost">
+            {t('cart.remove')}
+          </Button>
+        </CartForm>
+        <CartForm
+          route={localizePath('/cart')}
+          action={MOVE_TO_CART_ACTION}
+          inputs={{
+            savedLineId: item.id,
+            lines: [
+              {
+                merchandiseId: item.merchandiseId,
+                quantity: item.quantity,
+                sellingPlanId: item.sellingPlanId,
+                attributes: item.attributes,
+              },
+            ],
+            [OPTIMISTIC_PRICES_INPUT]: {[item.merchandiseId]: variant.price},
+          }}
+        >
+          {(fetcher: FetcherWithComponents<any>) => (
+            <>
+              <Button
+                disabled={!variant.availableForSale}
+                type="submit"
+                variant="outline"
+              >
+                {variant.availableForSale
+                  ? t('cart.moveToCart')
+                  : t('product.soldOut')}
+              </Button>
+              <CartFormErrors fetcher={fetcher} />
+            </>
+          )}
+        </CartForm>
+      </CardFooter>
+    </Card>
+  );
+}
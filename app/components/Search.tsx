@@ -1,11 +1,11 @@
 import {
-  Link,
   Form,
   useParams,
   useFetcher,
   useFetchers,
   type FormProps,
 } from '@remix-run/react';
+import {Link} from './Link';
 import { Image, Money, Pagination } from '@shopify/hydrogen';
 import React, { useRef, useEffect } from 'react';
 import { Button, buttonVariants } from '~/components/ui/button';
@@ -18,6 +18,8 @@ import type {
 } from 'storefrontapi.generated';
 import { Icon } from '@iconify/react';
 import { Input } from './ui/input';
+import { useTranslation } from '~/utils';
+import type { TranslationKey } from '~/lib/translations';
 
 type PredicticeSearchResultItemImage =
   | PredictiveCollectionFragment['image']
@@ -69,6 +71,7 @@ export const NO_PREDICTIVE_SEARCH_RESULTS: NormalizedPredictiveSearchResults = [
 
 export function SearchForm({ searchTerm }: { searchTerm: string }) {
   const inputRef = useRef<HTMLInputElement | null>(null);
+  const { t } = useTranslation();
 
   // focus the input when cmd+k is pressed
   useEffect(() => {
@@ -95,13 +98,13 @@ export function SearchForm({ searchTerm }: { searchTerm: string }) {
       <Input
         defaultValue={searchTerm}
         name="q"
-        placeholder="Search…"
+        placeholder={t('search.placeholder')}
         ref={inputRef}
         type="search"
       />
       <Button type="submit">
         <Icon icon="lucide:search" className="w-4 h-4 mr-2" />
-        Search
+        {t('search.submit')}
       </Button>
     </Form>
   );
@@ -154,9 +157,11 @@ export function SearchResults({
 }
 
 function SearchResultsProductsGrid({ products }: Pick<SearchQuery, 'products'>) {
+  const { t } = useTranslation();
+
   return (
     <div className="flex flex-col gap-2">
-      <h2>Products</h2>
+      <h2>{t('search.products')}</h2>
       <div>
         <Pagination connection={products}>
           {({ nodes, isLoading, NextLink, PreviousLink }) => {
@@ -171,7 +176,11 @@ function SearchResultsProductsGrid({ products }: Pick<SearchQuery, 'products'>)
               <div>
                 <div>
                   <PreviousLink>
-                    {isLoading ? 'Loading...' : <span>↑ Load previous</span>}
+                    {isLoading ? (
+                      t('common.loading')
+                    ) : (
+                      <span>↑ {t('common.loadPrevious')}</span>
+                    )}
                   </PreviousLink>
                 </div>
                 <div>
@@ -180,7 +189,11 @@ function SearchResultsProductsGrid({ products }: Pick<SearchQuery, 'products'>)
                 </div>
                 <div>
                   <NextLink>
-                    {isLoading ? 'Loading...' : <span>Load more ↓</span>}
+                    {isLoading ? (
+                      t('common.loading')
+                    ) : (
+                      <span>{t('common.loadMore')} ↓</span>
+                    )}
                   </NextLink>
                 </div>
               </div>
@@ -193,9 +206,11 @@ function SearchResultsProductsGrid({ products }: Pick<SearchQuery, 'products'>)
 }
 
 function SearchResultPageGrid({ pages }: Pick<SearchQuery, 'pages'>) {
+  const { t } = useTranslation();
+
   return (
     <div className="flex flex-col gap-2">
-      <h2>Pages</h2>
+      <h2>{t('search.pages')}</h2>
       <div>
         {pages?.nodes?.map((page) => (
           <div className="search-results-item" key={page.id}>
@@ -210,9 +225,11 @@ function SearchResultPageGrid({ pages }: Pick<SearchQuery, 'pages'>) {
 }
 
 function SearchResultArticleGrid({ articles }: Pick<SearchQuery, 'articles'>) {
+  const { t } = useTranslation();
+
   return (
     <div className="flex flex-col gap-2">
-      <h2>Articles</h2>
+      <h2>{t('search.articles')}</h2>
       <div>
         {articles?.nodes?.map((article) => (
           <div className="search-results-item" key={article.id}>
@@ -228,7 +245,8 @@ function SearchResultArticleGrid({ articles }: Pick<SearchQuery, 'articles'>) {
 }
 
 export function NoSearchResults() {
-  return <p>No results, try a different search.</p>;
+  const { t } = useTranslation();
+  return <p>{t('search.noResults')}</p>;
 }
 
 type ChildrenRenderProps = {
@@ -298,6 +316,7 @@ export function PredictiveSearchForm({
 export function PredictiveSearchResults() {
   const { results, totalResults, searchInputRef, searchTerm } =
     usePredictiveSearch();
+  const { t } = useTranslation();
 
   function goToSearchResult(event: React.MouseEvent<HTMLAnchorElement>) {
     if (!searchInputRef.current) return;
@@ -330,7 +349,7 @@ export function PredictiveSearchResults() {
           onClick={goToSearchResult}
           to={`/search?q=${searchTerm.current}`}
         >
-          View all results for <q>{searchTerm.current}</q>
+          {t('search.viewAll', { term: searchTerm.current })}
           <Icon icon="lucide:arrow-right" className="w-4 h-4 ml-2" />
         </Link>
       )}
@@ -343,14 +362,12 @@ function NoPredictiveSearchResults({
 }: {
   searchTerm: React.MutableRefObject<string>;
 }) {
+  const { t } = useTranslation();
+
   if (!searchTerm.current) {
     return null;
   }
-  return (
-    <p>
-      No results found for <q>{searchTerm.current}</q>
-    </p>
-  );
+  return <p>{t('search.noResultsFor', { term: searchTerm.current })}</p>;
 }
 
 type SearchResultTypeProps = {
@@ -366,14 +383,14 @@ function PredictiveSearchResult({
   searchTerm,
   type,
 }: SearchResultTypeProps) {
-  const isSuggestions = type === 'queries';
+  const { t } = useTranslation();
   const categoryUrl = `/search?q=${searchTerm.current
     }&type=${pluralToSingularSearchType(type)}`;
 
   return (
     <div className="predictive-search-result" key={type}>
       <Link prefetch="intent" to={categoryUrl} onClick={goToSearchResult}>
-        <h3 className="capitalize">{isSuggestions ? 'Suggestions' : type}</h3>
+        <h3>{t(PREDICTIVE_SEARCH_HEADINGS[type])}</h3>
       </Link>
       <ul className="m-0 list-none">
         {items.map((item: NormalizedPredictiveSearchResultItem) => (
@@ -388,6 +405,17 @@ function PredictiveSearchResult({
   );
 }
 
+const PREDICTIVE_SEARCH_HEADINGS: Record<
+  NormalizedPredictiveSearchResults[number]['type'],
+  TranslationKey
+> = {
+  queries: 'search.suggestions',
+  products: 'search.products',
+  collections: 'search.collections',
+  pages: 'search.pages',
+  articles: 'search.articles',
+};
+
 type SearchResultItemProps = Pick<SearchResultTypeProps, 'goToSearchResult'> & {
   item: NormalizedPredictiveSearchResultItem;
 };
@@ -2,11 +2,11 @@ import type { SyntheticEvent } from 'react';
 import { useMemo, useState } from 'react';
 import type { Location } from '@remix-run/react';
 import {
-  Link,
   useLocation,
   useSearchParams,
   useNavigate,
 } from '@remix-run/react';
+import {Link} from './Link';
 import { useDebounce } from 'react-use';
 import type { FilterType, Filter } from '@shopify/hydrogen/storefront-api-types';
 import { Icon } from '@iconify/react';
@@ -19,6 +19,9 @@ import {
 import { Button, buttonVariants } from './ui/button';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from './ui/sheet';
 import { Badge } from './ui/badge';
+import { Swatch } from './Swatch';
+import { getSwatch, isSwatchOption, type SwatchMap } from '~/data/swatches';
+import { useTranslation } from '~/utils';
 
 export type AppliedFilter = {
   label: string;
@@ -40,6 +43,7 @@ type Props = {
   appliedFilters?: AppliedFilter[];
   children: React.ReactNode;
   collections?: Array<{ handle: string; title: string }>;
+  swatches?: SwatchMap;
 };
 
 export function SortFilter({
@@ -47,8 +51,10 @@ export function SortFilter({
   appliedFilters = [],
   children,
   collections = [],
+  swatches = {},
 }: Props) {
-  const name = 'Filter'
+  const {t} = useTranslation();
+  const name = t('filters.title')
   return (
     <>
       <div className="flex justify-end w-full">
@@ -70,6 +76,7 @@ export function SortFilter({
               collections={collections}
               filters={filters}
               appliedFilters={appliedFilters}
+              swatches={swatches}
             />
 
           </SheetContent>
@@ -87,6 +94,7 @@ export function SortFilter({
 export function FiltersDrawer({
   filters = [],
   appliedFilters = [],
+  swatches = {},
 }: Omit<Props, 'children'>) {
   const [params] = useSearchParams();
   const location = useLocation();
@@ -129,6 +137,33 @@ export function FiltersDrawer({
     }
   };
 
+  const swatchMarkup = (filter: Filter, option: Filter['values'][0]) => {
+    const isActive = isFilterActive(filter, option.input as string, params);
+    const isAvailable = option.count > 0;
+    const to = getFilterLink(filter, option.input as string, params, location);
+    return (
+      <Link
+        aria-current={isActive}
+        aria-disabled={!isAvailable}
+        className="flex flex-col items-center w-16 gap-1 text-xs text-center rounded focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        key={option.id}
+        prefetch="intent"
+        to={to}
+      >
+        <Swatch
+          isActive={isActive}
+          isAvailable={isAvailable}
+          label={`${filter.label}: ${option.label}`}
+          swatch={getSwatch(swatches, option.label)}
+          value={option.label}
+        />
+        <span aria-hidden className={!isAvailable ? 'line-through' : ''}>
+          {option.label}
+        </span>
+      </Link>
+    );
+  };
+
   return (
     <Accordion type="multiple">
       {appliedFilters.length > 0 && (
@@ -146,13 +181,19 @@ export function FiltersDrawer({
                 </div>
               </AccordionTrigger>
               <AccordionContent>
-                <div className="flex flex-col gap-1" key={filter.id}>
-                  {filter.values?.map((option) => (
-                    <div key={option.id}>
-                      {filterMarkup(filter, option)}
-                    </div>
-                  ))}
-                </div>
+                {isSwatchFilter(filter, swatches) ? (
+                  <div className="flex flex-wrap gap-2" key={filter.id}>
+                    {filter.values.map((option) => swatchMarkup(filter, option))}
+                  </div>
+                ) : (
+                  <div className="flex flex-col gap-1" key={filter.id}>
+                    {filter.values?.map((option) => (
+                      <div key={option.id}>
+                        {filterMarkup(filter, option)}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </AccordionContent>
             </AccordionItem>
           ),
@@ -164,12 +205,13 @@ export function FiltersDrawer({
 function AppliedFilters({ filters = [] }: { filters: AppliedFilter[] }) {
   const [params] = useSearchParams();
   const location = useLocation();
+  const {t} = useTranslation();
   return (
     <>
       <AccordionItem value="applied-filters">
         <AccordionTrigger>
           <div className="flex items-center gap-2">
-            <span>Applied Filters</span>
+            <span>{t('filters.applied')}</span>
             <Badge variant="secondary">{filters.length}</Badge>
           </div>
         </AccordionTrigger>
@@ -178,6 +220,7 @@ function AppliedFilters({ filters = [] }: { filters: AppliedFilter[] }) {
             {filters.map((filter: AppliedFilter) => {
               return (
                 <Link
+                  aria-label={t('filters.removeFilter', {label: filter.label})}
                   to={getAppliedFilterLink(filter, params, location)}
                   className={`
                     ${buttonVariants({ variant: 'outline', size: 'sm' })}
@@ -197,6 +240,22 @@ function AppliedFilters({ filters = [] }: { filters: AppliedFilter[] }) {
   );
 }
 
+function isSwatchFilter(filter: Filter, swatches: SwatchMap) {
+  if (filter.type !== 'LIST') return false;
+  const isVariantOption = filter.values.every((option) => {
+    const input = JSON.parse(option.input as string) as Record<string, any>;
+    return 'variantOption' in input;
+  });
+  return (
+    isVariantOption &&
+    isSwatchOption(
+      swatches,
+      filter.label,
+      filter.values.map((option) => option.label),
+    )
+  );
+}
+
 function getAppliedFilterLink(
   filter: AppliedFilter,
   params: URLSearchParams,
@@ -279,6 +338,7 @@ function PriceRangeFilter({ max, min }: { max?: number; min?: number }) {
     [location.search],
   );
   const navigate = useNavigate();
+  const {t} = useTranslation();
 
   const [minPrice, setMinPrice] = useState(min ? String(min) : '');
   const [maxPrice, setMaxPrice] = useState(max ? String(max) : '');
@@ -315,7 +375,7 @@ function PriceRangeFilter({ max, min }: { max?: number; min?: number }) {
   return (
     <div className="flex flex-col">
       <label className="mb-4">
-        <span>from</span>
+        <span>{t('filters.priceFrom')}</span>
         <input
           name="maxPrice"
           className="text-black"
@@ -326,7 +386,7 @@ function PriceRangeFilter({ max, min }: { max?: number; min?: number }) {
         />
       </label>
       <label>
-        <span>to</span>
+        <span>{t('filters.priceTo')}</span>
         <input
           name="minPrice"
           className="text-black"
@@ -375,22 +435,23 @@ function filterInputToParams(
 }
 
 export default function SortMenu() {
+  const {t} = useTranslation();
   const items: { label: string; key: SortParam }[] = [
-    { label: 'Featured', key: 'featured' },
+    { label: t('filters.sort.featured'), key: 'featured' },
     {
-      label: 'Price: Low - High',
+      label: t('filters.sort.priceLowHigh'),
       key: 'price-low-high',
     },
     {
-      label: 'Price: High - Low',
+      label: t('filters.sort.priceHighLow'),
       key: 'price-high-low',
     },
     {
-      label: 'Best Selling',
+      label: t('filters.sort.bestSelling'),
       key: 'best-selling',
     },
     {
-      label: 'Newest',
+      label: t('filters.sort.newest'),
       key: 'newest',
     },
   ];
@@ -402,7 +463,7 @@ export default function SortMenu() {
     <AccordionItem value="sorting">
       <AccordionTrigger>
         <div className="flex items-center gap-2">
-          <span>Sort By</span>
+          <span>{t('filters.sortBy')}</span>
           <Badge variant="secondary">
             {(activeItem || items[0]).label}
           </Badge>
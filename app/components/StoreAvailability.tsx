@@ -0,0 +1,210 @@
+import {Await, useMatches, type FetcherWithComponents} from '@remix-run/react';
+import {Suspense, useState} from 'react';
+import {CartForm} from '@shopify/hydrogen';
+import {Icon} from '@iconify/react';
+import type {
+  CartApiQueryFragment,
+  ProductVariantStoreAvailabilityFragment,
+} from 'storefrontapi.generated';
+import {PICKUP_LOCATION_ATTRIBUTE, setCartAttribute} from '~/lib/cart';
+import {useLocalizePath, useTranslation} from '~/utils';
+import {CartFormErrors} from './Cart';
+import {Badge} from './ui/badge';
+import {Button} from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+
+type Availability =
+  ProductVariantStoreAvailabilityFragment['storeAvailability']['nodes'][number];
+
+type CartAttributes = CartApiQueryFragment['attributes'];
+
+/**
+ * Pickup availability of a variant at the shop's locations. The location the
+ * shopper picked is saved as a cart attribute, which reads from the cart
+ * loaded by the root loader.
+ */
+export function StoreAvailability({
+  variant,
+}: {
+  variant?: ProductVariantStoreAvailabilityFragment | null;
+}) {
+  const [root] = useMatches();
+  const cart = root?.data?.cart as
+    | Promise<CartApiQueryFragment | null>
+    | undefined;
+  const availability = variant?.storeAvailability.nodes ?? [];
+
+  // pickup isn't offered for the variant
+  if (!availability.length) return null;
+
+  const fallback = (
+    <StoreAvailabilityPanel attributes={[]} availability={availability} />
+  );
+
+  return (
+    <Suspense fallback={fallback}>
+      <Await errorElement={fallback} resolve={cart}>
+        {(cart) => (
+          <StoreAvailabilityPanel
+            attributes={cart?.attributes ?? []}
+            availability={availability}
+          />
+        )}
+      </Await>
+    </Suspense>
+  );
+}
+
+function StoreAvailabilityPanel({
+  attributes,
+  availability,
+}: {
+  attributes: CartAttributes;
+  availability: Availability[];
+}) {
+  const {t} = useTranslation();
+  const [open, setOpen] = useState(false);
+  const pickupLocation =
+    attributes.find(({key}) => key === PICKUP_LOCATION_ATTRIBUTE)?.value ??
+    null;
+
+  // the shopper's store first, otherwise the first one with stock
+  const primary =
+    availability.find(({location}) => location.name === pickupLocation) ??
+    availability.find(({available}) => available) ??
+    availability[0];
+
+  return (
+    <div className="flex flex-col gap-2 p-4 border rounded-md">
+      <StoreAvailabilityStatus
+        availability={primary}
+        selected={primary.location.name === pickupLocation}
+      />
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogTrigger asChild>
+          <Button className="self-start h-auto p-0" variant="link">
+            {t('product.pickup.viewAll')}
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{t('product.pickup.title')}</DialogTitle>
+            <DialogDescription>
+              {t('product.pickup.description')}
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="flex flex-col gap-4 m-0 list-none">
+            {availability.map((store) => {
+              const selected = store.location.name === pickupLocation;
+              return (
+                <li key={store.location.id} className="flex flex-col gap-2 m-0">
+                  <StoreAvailabilityStatus
+                    availability={store}
+                    selected={selected}
+                  />
+                  {store.location.address.formatted.length > 0 && (
+                    <address className="text-sm not-italic text-muted-foreground">
+                      {store.location.address.formatted.join(', ')}
+                    </address>
+                  )}
+                  {!selected && (
+                    <PickupLocationButton
+                      attributes={attributes}
+                      disabled={!store.available}
+                      location={store.location.name}
+                    />
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function StoreAvailabilityStatus({
+  availability,
+  selected,
+}: {
+  availability: Availability;
+  selected: boolean;
+}) {
+  const {t} = useTranslation();
+  const {available, location, pickUpTime} = availability;
+
+  return (
+    <div className="flex items-start gap-2">
+      <Icon
+        icon={available ? 'lucide:check' : 'lucide:x'}
+        className={`w-4 h-4 mt-1 flex-shrink-0 ${
+          available ? 'text-primary' : 'text-muted-foreground'
+        }`}
+      />
+      <div className="flex flex-col gap-1">
+        <p className="m-0 text-sm">
+          {available
+            ? t('product.pickup.available', {location: location.name})
+            : t('product.pickup.unavailable', {location: location.name})}
+        </p>
+        {available && pickUpTime && (
+          <p className="m-0 text-xs text-muted-foreground">{pickUpTime}</p>
+        )}
+        {selected && (
+          <Badge className="self-start" variant="secondary">
+            {t('product.pickup.selected')}
+          </Badge>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function PickupLocationButton({
+  attributes,
+  disabled,
+  location,
+}: {
+  attributes: CartAttributes;
+  disabled: boolean;
+  location: string;
+}) {
+  const {t} = useTranslation();
+  const localizePath = useLocalizePath();
+
+  return (
+    <CartForm
+      route={localizePath('/cart')}
+      action={CartForm.ACTIONS.AttributesUpdateInput}
+      inputs={{
+        attributes: setCartAttribute(
+          attributes,
+          PICKUP_LOCATION_ATTRIBUTE,
+          location,
+        ),
+      }}
+    >
+      {(fetcher: FetcherWithComponents<any>) => (
+        <>
+          <Button
+            disabled={disabled || fetcher.state !== 'idle'}
+            size="sm"
+            type="submit"
+            variant="outline"
+          >
+            {t('product.pickup.select')}
+          </Button>
+          <CartFormErrors fetcher={fetcher} />
+        </>
+      )}
+    </CartForm>
+  );
+}
@@ -0,0 +1,13 @@
+import {serializeJsonLd, type JsonLd} from '~/lib/structured-data';
+
+/**
+ * Renders schema.org JSON-LD for search engines
+ */
+export function StructuredData({data}: {data: JsonLd | JsonLd[]}) {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{__html: serializeJsonLd(data)}}
+    />
+  );
+}
@@ -0,0 +1,70 @@
+import type {SwatchData} from '~/data/swatches';
+import {cn} from '~/lib/utils';
+import {useTranslation} from '~/utils';
+
+type SwatchProps = {
+  className?: string;
+  isActive?: boolean;
+  isAvailable?: boolean;
+  /**
+   * Accessible name of the swatch, e.g. "Color: Navy"
+   */
+  label: string;
+  swatch: SwatchData | null;
+  value: string;
+};
+
+/**
+ * A round colour or image chip for an option value. Unavailable values are
+ * crossed out. Wrap it in a link or button to make it interactive.
+ */
+export function Swatch({
+  className,
+  isActive = false,
+  isAvailable = true,
+  label,
+  swatch,
+  value,
+}: SwatchProps) {
+  const {t} = useTranslation();
+  const unavailable = `(${t('product.unavailable')})`;
+
+  return (
+    <span
+      className={cn(
+        'relative inline-flex items-center justify-center w-9 h-9 rounded-full border-2 ring-offset-background transition-all',
+        isActive ? 'border-primary ring-2 ring-ring ring-offset-2' : 'border-input',
+        !isAvailable && 'opacity-50',
+        className,
+      )}
+      title={isAvailable ? value : `${value} ${unavailable}`}
+    >
+      <span
+        aria-hidden
+        className="w-full h-full overflow-hidden bg-center bg-cover border rounded-full border-background"
+        style={{
+          backgroundColor: swatch?.color ?? undefined,
+          backgroundImage: swatch?.image?.url
+            ? `url(${swatch.image.url})`
+            : undefined,
+        }}
+      >
+        {!swatch?.color && !swatch?.image && (
+          <span className="flex items-center justify-center w-full h-full text-xs font-semibold uppercase">
+            {value.slice(0, 2)}
+          </span>
+        )}
+      </span>
+      {!isAvailable && (
+        <span
+          aria-hidden
+          className="absolute w-[140%] h-0.5 rotate-45 bg-foreground"
+        />
+      )}
+      <span className="sr-only">
+        {label}
+        {!isAvailable && ` ${unavailable}`}
+      </span>
+    </span>
+  );
+}
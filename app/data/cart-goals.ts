@@ -0,0 +1,293 @@
+import type {AppLoadContext} from '@shopify/remix-oxygen';
+import type {
+  CartLineInput,
+  CurrencyCode,
+} from '@shopify/hydrogen/storefront-api-types';
+import type {CartGoalsCartQuery} from 'storefrontapi.generated';
+
+export const CART_GOAL_TYPES = [
+  'free_shipping',
+  'free_gift',
+  'discount',
+] as const;
+
+export type CartGoalType = (typeof CART_GOAL_TYPES)[number];
+
+export type CartGoal = {
+  id: string;
+  type: CartGoalType;
+  /**
+   * Names the reward of `discount` goals, e.g. `10% off`
+   */
+  label: string | null;
+  /**
+   * Subtotal to reach, keyed by currency so every market gets its own amount
+   */
+  thresholds: Partial<Record<CurrencyCode, number>>;
+  /**
+   * Variant added to the cart once a `free_gift` goal is reached
+   */
+  giftVariantId: string | null;
+};
+
+export type CartGoalProgress = {
+  goal: CartGoal;
+  threshold: number;
+  remaining: number;
+  reached: boolean;
+};
+
+type GoalCart = NonNullable<CartGoalsCartQuery['cart']>;
+
+/**
+ * Line attribute marking the gift lines added for a `free_gift` goal. Its
+ * value is the id of the goal.
+ */
+export const CART_GOAL_ATTRIBUTE = '_cart_goal';
+
+export function isGiftLine(line: GoalCart['lines']['nodes'][number]) {
+  return line.attributes.some(({key}) => key === CART_GOAL_ATTRIBUTE);
+}
+
+/**
+ * The subtotal goals are measured against, gift lines don't count towards
+ * the goals that added them
+ */
+export function getGoalSubtotal(cart: GoalCart) {
+  const giftAmount = cart.lines.nodes
+    .filter(isGiftLine)
+    .reduce((total, line) => total + Number(line.cost.totalAmount.amount), 0);
+
+  return Math.max(0, Number(cart.cost.subtotalAmount.amount) - giftAmount);
+}
+
+/**
+ * Progress towards each goal with a threshold in the cart currency, from the
+ * lowest threshold to the highest
+ */
+export function getCartGoalProgress(
+  cart: GoalCart,
+  goals: CartGoal[],
+): CartGoalProgress[] {
+  const currencyCode = cart.cost.subtotalAmount.currencyCode;
+  const subtotal = getGoalSubtotal(cart);
+
+  return goals
+    .flatMap((goal) => {
+      const threshold = goal.thresholds[currencyCode];
+      if (threshold === undefined) return [];
+
+      return [
+        {
+          goal,
+          threshold,
+          remaining: Math.max(0, threshold - subtotal),
+          reached: subtotal >= threshold,
+        },
+      ];
+    })
+    .sort((a, b) => a.threshold - b.threshold);
+}
+
+/**
+ * Adds the gift of every reached `free_gift` goal and removes the gifts of
+ * the goals the cart fell below. The gift is only discounted to zero by an
+ * automatic discount set up in the Shopify admin, the Storefront API can't
+ * change line prices.
+ *
+ * Runs after the shopper's own change went through, so a failed sync is only
+ * logged. The gifts catch up with the next change to the cart.
+ */
+export async function syncCartGoalGifts(
+  {cart, storefront}: Pick<AppLoadContext, 'cart' | 'storefront'>,
+  cartId: string,
+  goals: CartGoal[],
+) {
+  if (!goals.some((goal) => goal.giftVariantId)) return;
+
+  try {
+    await updateGiftLines({cart, storefront}, cartId, goals);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error('There was a problem syncing the cart goal gifts', error);
+  }
+}
+
+async function updateGiftLines(
+  {cart, storefront}: Pick<AppLoadContext, 'cart' | 'storefront'>,
+  cartId: string,
+  goals: CartGoal[],
+) {
+  // mutations only return the cart id, read the lines back. The cart may not
+  // be in the cookie yet, e.g. right after it was created.
+  const {cart: current} = await storefront.query(CART_GOALS_CART_QUERY, {
+    cache: storefront.CacheNone(),
+    variables: {cartId},
+  });
+  if (!current) return;
+
+  const progress = getCartGoalProgress(current, goals);
+  const giftLines = current.lines.nodes.filter(isGiftLine);
+  const reachedGoalIds = new Set(
+    progress
+      .filter(({reached, goal}) => reached && goal.giftVariantId)
+      .map(({goal}) => goal.id),
+  );
+
+  const linesToRemove = giftLines
+    .filter((line) => {
+      const goalId = line.attributes.find(
+        ({key}) => key === CART_GOAL_ATTRIBUTE,
+      )?.value;
+      return !goalId || !reachedGoalIds.has(goalId);
+    })
+    .map((line) => line.id);
+
+  const linesToAdd: CartLineInput[] = progress
+    .filter(
+      ({goal}) =>
+        reachedGoalIds.has(goal.id) &&
+        !giftLines.some((line) =>
+          line.attributes.some(
+            ({key, value}) => key === CART_GOAL_ATTRIBUTE && value === goal.id,
+          ),
+        ),
+    )
+    .map(({goal}) => ({
+      merchandiseId: goal.giftVariantId!,
+      quantity: 1,
+      attributes: [{key: CART_GOAL_ATTRIBUTE, value: goal.id}],
+    }));
+
+  const errors: Array<{message: string}> = [];
+  if (linesToRemove.length) {
+    const result = await cart.removeLines(linesToRemove, {cartId});
+    errors.push(...(result.errors ?? []));
+  }
+  if (linesToAdd.length) {
+    const result = await cart.addLines(linesToAdd, {cartId});
+    errors.push(...(result.errors ?? []));
+  }
+
+  if (errors.length) {
+    throw new Error(errors.map(({message}) => message).join(' '));
+  }
+}
+
+/**
+ * Loads the shop's `cart_goal` metaobjects. Each entry needs a `type` text
+ * field (`free_shipping`, `free_gift` or `discount`) and a `thresholds` JSON
+ * field with the amount per currency, e.g. `{"USD": "50.00", "EUR": "45"}`.
+ * `free_gift` goals also need a `gift` product variant reference, and
+ * `discount` goals can name their reward with a `label` text field.
+ */
+export async function getCartGoals(
+  storefront: AppLoadContext['storefront'],
+): Promise<CartGoal[]> {
+  const {metaobjects} = await storefront.query(CART_GOALS_QUERY, {
+    cache: storefront.CacheLong(),
+  });
+
+  return metaobjects.nodes.flatMap((node) => {
+    const type = node.type?.value as CartGoalType | undefined;
+    if (!type || !CART_GOAL_TYPES.includes(type)) return [];
+
+    const giftVariantId =
+      node.gift?.reference?.__typename === 'ProductVariant'
+        ? node.gift.reference.id
+        : null;
+    if (type === 'free_gift' && !giftVariantId) return [];
+
+    const thresholds = parseThresholds(node.thresholds?.value);
+    if (!thresholds) return [];
+
+    return [
+      {
+        id: node.id,
+        type,
+        label: node.label?.value ?? null,
+        thresholds,
+        giftVariantId,
+      },
+    ];
+  });
+}
+
+function parseThresholds(value?: string | null) {
+  if (!value) return null;
+
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (!parsed || typeof parsed !== 'object') return null;
+
+    const thresholds: CartGoal['thresholds'] = {};
+    for (const [currencyCode, amount] of Object.entries(parsed)) {
+      const threshold = Number(amount);
+      if (Number.isFinite(threshold) && threshold > 0) {
+        thresholds[currencyCode.toUpperCase() as CurrencyCode] = threshold;
+      }
+    }
+    return Object.keys(thresholds).length ? thresholds : null;
+  } catch {
+    return null;
+  }
+}
+
+const CART_GOALS_QUERY = `#graphql
+  query CartGoals($country: CountryCode, $language: LanguageCode)
+    @inContext(country: $country, language: $language) {
+    metaobjects(type: "cart_goal", first: 20) {
+      nodes {
+        id
+        type: field(key: "type") {
+          value
+        }
+        label: field(key: "label") {
+          value
+        }
+        thresholds: field(key: "thresholds") {
+          value
+        }
+        gift: field(key: "gift") {
+          reference {
+            __typename
+            ... on ProductVariant {
+              id
+            }
+          }
+        }
+      }
+    }
+  }
+` as const;
+
+const CART_GOALS_CART_QUERY = `#graphql
+  query CartGoalsCart(
+    $cartId: ID!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    cart(id: $cartId) {
+      cost {
+        subtotalAmount {
+          amount
+          currencyCode
+        }
+      }
+      lines(first: 100) {
+        nodes {
+          id
+          attributes {
+            key
+            value
+          }
+          cost {
+            totalAmount {
+              amount
+            }
+          }
+        }
+      }
+    }
+  }
+` as const;
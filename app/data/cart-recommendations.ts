@@ -0,0 +1,84 @@
+import type {AppLoadContext} from '@shopify/remix-oxygen';
+import type {
+  CartApiQueryFragment,
+  ProductCardFragment,
+} from 'storefrontapi.generated';
+import {PRODUCT_CARD_FRAGMENT} from '~/data/fragments';
+import {isGiftLine} from '~/data/cart-goals';
+
+/**
+ * Recommendations are only looked up for the first few products in the cart
+ */
+export const SOURCE_PRODUCT_LIMIT = 4;
+
+export const CART_RECOMMENDATIONS_LIMIT = 8;
+
+/**
+ * The products recommendations are looked up for. Gift lines aren't chosen
+ * by the shopper, so they don't drive the suggestions.
+ */
+export function getRecommendationSourceIds(
+  lines: CartApiQueryFragment['lines']['nodes'],
+) {
+  const productIds = lines
+    .filter((line) => line.quantity > 0 && !isGiftLine(line))
+    .map(({merchandise}) => merchandise.product.id);
+
+  return [...new Set(productIds)].slice(0, SOURCE_PRODUCT_LIMIT);
+}
+
+/**
+ * Complementary products of the given cart products, falling back to related
+ * ones. The given products are left out, other products already in the cart
+ * are left out by the caller.
+ */
+export async function getCartRecommendations(
+  storefront: AppLoadContext['storefront'],
+  productIds: string[],
+): Promise<ProductCardFragment[]> {
+  const sourceProductIds = productIds.slice(0, SOURCE_PRODUCT_LIMIT);
+  if (!sourceProductIds.length) return [];
+
+  const results = await Promise.all(
+    sourceProductIds.map((productId) =>
+      storefront.query(CART_RECOMMENDATIONS_QUERY, {
+        variables: {productId},
+        cache: storefront.CacheLong(),
+      }),
+    ),
+  );
+
+  const recommendations = new Map<string, ProductCardFragment>();
+  const intents = [
+    ...results.map(({complementary}) => complementary),
+    ...results.map(({related}) => related),
+  ];
+  for (const products of intents) {
+    for (const product of products ?? []) {
+      if (!sourceProductIds.includes(product.id)) {
+        recommendations.set(product.id, product);
+      }
+    }
+  }
+
+  return [...recommendations.values()].slice(0, CART_RECOMMENDATIONS_LIMIT);
+}
+
+const CART_RECOMMENDATIONS_QUERY = `#graphql
+  query CartRecommendations(
+    $country: CountryCode
+    $language: LanguageCode
+    $productId: ID!
+  ) @inContext(country: $country, language: $language) {
+    complementary: productRecommendations(
+      productId: $productId
+      intent: COMPLEMENTARY
+    ) {
+      ...ProductCard
+    }
+    related: productRecommendations(productId: $productId, intent: RELATED) {
+      ...ProductCard
+    }
+  }
+  ${PRODUCT_CARD_FRAGMENT}
+` as const;
@@ -0,0 +1,129 @@
+import type {AppLoadContext} from '@shopify/remix-oxygen';
+import {cartSetIdDefault} from '@shopify/hydrogen';
+import type {CartLineInput} from '@shopify/hydrogen/storefront-api-types';
+import type {CartApiQueryFragment} from 'storefrontapi.generated';
+import {
+  CART_GOAL_ATTRIBUTE,
+  getCartGoals,
+  syncCartGoalGifts,
+} from '~/data/cart-goals';
+
+/**
+ * Attaches a customer who just signed in to the current cart, so checkout is
+ * prefilled with their details. Carts can't be looked up by customer, so the
+ * lines of their last incomplete checkout, e.g. from a cart abandoned on
+ * another device, are merged in instead. Variants already in the cart are
+ * skipped, which keeps the merge from doubling the checkout of this same
+ * cart.
+ *
+ * Returns the headers setting the cart cookie, or null when there is no cart
+ * to attach. Signing in doesn't fail when the cart can't be updated.
+ */
+export async function attachCustomerToCart(
+  {cart, storefront}: Pick<AppLoadContext, 'cart' | 'storefront'>,
+  customerAccessToken: string,
+): Promise<Headers | null> {
+  try {
+    const [current, {customer}] = await Promise.all([
+      cart.get() as Promise<CartApiQueryFragment | null>,
+      storefront.query(CUSTOMER_ABANDONED_CHECKOUT_QUERY, {
+        variables: {customerAccessToken},
+        cache: storefront.CacheNone(),
+      }),
+    ]);
+
+    const lineItems = customer?.lastIncompleteCheckout?.lineItems.nodes ?? [];
+    const linesToAdd: CartLineInput[] = lineItems.flatMap(
+      ({variant, quantity, customAttributes}) => {
+        if (
+          !variant ||
+          current?.lines.nodes.some(
+            ({merchandise}) => merchandise.id === variant.id,
+          ) ||
+          // gifts are synced with the goals of the merged cart
+          customAttributes.some(({key}) => key === CART_GOAL_ATTRIBUTE)
+        ) {
+          return [];
+        }
+
+        return [
+          {
+            merchandiseId: variant.id,
+            quantity,
+            attributes: customAttributes.map(({key, value}) => ({
+              key,
+              value: value ?? '',
+            })),
+          },
+        ];
+      },
+    );
+
+    if (!current && !linesToAdd.length) return null;
+
+    const buyerIdentity = {
+      customerAccessToken,
+      countryCode:
+        current?.buyerIdentity.countryCode ?? storefront.i18n.country,
+    };
+
+    const result = current
+      ? await cart.updateBuyerIdentity(buyerIdentity)
+      : await cart.create({buyerIdentity, lines: linesToAdd});
+    const cartId = result.cart.id;
+
+    if (current && linesToAdd.length) {
+      await cart.addLines(linesToAdd, {cartId});
+    }
+    if (linesToAdd.length) {
+      await syncCartGoalGifts(
+        {cart, storefront},
+        cartId,
+        await getCartGoals(storefront),
+      );
+    }
+
+    return cart.setCartId(cartId);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error(
+      'There was a problem attaching the customer to the cart',
+      error,
+    );
+    return null;
+  }
+}
+
+/**
+ * Headers expiring the cart cookie. The cart keeps its customer, so signing
+ * out starts a new anonymous cart rather than detaching the current one,
+ * which leaves nothing of the customer behind in the browser.
+ */
+export function clearCartId() {
+  return cartSetIdDefault({maxage: 0})('');
+}
+
+const CUSTOMER_ABANDONED_CHECKOUT_QUERY = `#graphql
+  query CustomerAbandonedCheckout(
+    $country: CountryCode
+    $customerAccessToken: String!
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    customer(customerAccessToken: $customerAccessToken) {
+      lastIncompleteCheckout {
+        lineItems(first: 100) {
+          nodes {
+            quantity
+            variant {
+              id
+            }
+            customAttributes {
+              key
+              value
+            }
+          }
+        }
+      }
+    }
+  }
+` as const;
@@ -105,3 +105,34 @@ export const FEATURED_COLLECTION_FRAGMENT = `#graphql
     }
   }
 `;
+
+/**
+ * A variant shown outside the cart lines, e.g. a saved for later or shared
+ * line
+ */
+export const LINE_VARIANT_FRAGMENT = `#graphql
+  fragment LineVariant on ProductVariant {
+    id
+    title
+    availableForSale
+    price {
+      amount
+      currencyCode
+    }
+    image {
+      id
+      url
+      altText
+      width
+      height
+    }
+    product {
+      handle
+      title
+    }
+    selectedOptions {
+      name
+      value
+    }
+  }
+`;
@@ -0,0 +1,147 @@
+import type {AppLoadContext} from '@shopify/remix-oxygen';
+import type {AttributeInput} from '@shopify/hydrogen/storefront-api-types';
+import type {
+  CartApiQueryFragment,
+  LineVariantFragment,
+} from 'storefrontapi.generated';
+import {LINE_VARIANT_FRAGMENT} from '~/data/fragments';
+
+/**
+ * Custom `CartForm` actions handled by the `/cart` action
+ */
+export const SAVE_FOR_LATER_ACTION = 'CustomSaveForLater';
+export const MOVE_TO_CART_ACTION = 'CustomMoveToCart';
+export const REMOVE_SAVED_ACTION = 'CustomRemoveSaved';
+
+/**
+ * The list lives in the session cookie, which keeps it small
+ */
+export const SAVED_FOR_LATER_LIMIT = 20;
+
+const SESSION_KEY = 'savedForLater';
+
+export type SavedLine = {
+  id: string;
+  merchandiseId: string;
+  quantity: number;
+  sellingPlanId?: string;
+  attributes?: AttributeInput[];
+};
+
+export type SavedForLaterItem = SavedLine & {
+  variant: LineVariantFragment;
+};
+
+/**
+ * Lines saved for later are kept in the session rather than in the cart, so
+ * they outlive checkout. The Storefront API can't write customer metafields,
+ * so signed in customers use the session too: their list stays in the browser
+ * it was saved in and is cleared when they sign out.
+ */
+export function getSavedLines(session: AppLoadContext['session']): SavedLine[] {
+  const lines = session.get(SESSION_KEY);
+  return Array.isArray(lines) ? (lines as SavedLine[]) : [];
+}
+
+/**
+ * Saves a cart line, merging it into a saved line for the same merchandise.
+ * The newest lines come first and the oldest ones drop off past the limit.
+ */
+export function saveLine(
+  session: AppLoadContext['session'],
+  line: Omit<SavedLine, 'id'>,
+) {
+  const lines = getSavedLines(session);
+  const existing = lines.find((saved) => isSameLine(saved, line));
+  const saved: SavedLine = existing
+    ? {...existing, quantity: existing.quantity + line.quantity}
+    : {...line, id: crypto.randomUUID().slice(0, 8)};
+
+  session.set(
+    SESSION_KEY,
+    [saved, ...lines.filter((other) => other !== existing)].slice(
+      0,
+      SAVED_FOR_LATER_LIMIT,
+    ),
+  );
+}
+
+/**
+ * The line to save for a cart line, keeping its selling plan and attributes
+ */
+export function toSavedLine(
+  line: CartApiQueryFragment['lines']['nodes'][number],
+): Omit<SavedLine, 'id'> {
+  return {
+    merchandiseId: line.merchandise.id,
+    quantity: line.quantity,
+    sellingPlanId: line.sellingPlanAllocation?.sellingPlan.id,
+    attributes: line.attributes.map(({key, value}) => ({
+      key,
+      value: value ?? '',
+    })),
+  };
+}
+
+export function removeSavedLine(
+  session: AppLoadContext['session'],
+  id: string,
+) {
+  session.set(
+    SESSION_KEY,
+    getSavedLines(session).filter((line) => line.id !== id),
+  );
+}
+
+export function clearSavedLines(session: AppLoadContext['session']) {
+  session.unset(SESSION_KEY);
+}
+
+/**
+ * The saved lines with their variant, skipping variants that no longer exist
+ */
+export async function getSavedForLater({
+  session,
+  storefront,
+}: Pick<AppLoadContext, 'session' | 'storefront'>): Promise<
+  SavedForLaterItem[]
+> {
+  const lines = getSavedLines(session);
+  if (!lines.length) return [];
+
+  const {nodes} = await storefront.query(SAVED_FOR_LATER_QUERY, {
+    variables: {ids: lines.map(({merchandiseId}) => merchandiseId)},
+  });
+
+  return lines.flatMap((line) => {
+    const variant = nodes.find(
+      (node) =>
+        node?.__typename === 'ProductVariant' && node.id === line.merchandiseId,
+    );
+    return variant?.__typename === 'ProductVariant' ? [{...line, variant}] : [];
+  });
+}
+
+function isSameLine(a: Omit<SavedLine, 'id'>, b: Omit<SavedLine, 'id'>) {
+  return (
+    a.merchandiseId === b.merchandiseId &&
+    a.sellingPlanId === b.sellingPlanId &&
+    JSON.stringify(a.attributes ?? []) === JSON.stringify(b.attributes ?? [])
+  );
+}
+
+const SAVED_FOR_LATER_QUERY = `#graphql
+  query SavedForLater(
+    $country: CountryCode
+    $ids: [ID!]!
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    nodes(ids: $ids) {
+      __typename
+      ... on ProductVariant {
+        ...LineVariant
+      }
+    }
+  }
+  ${LINE_VARIANT_FRAGMENT}
+` as const;
@@ -0,0 +1,270 @@
+import type {AppLoadContext} from '@shopify/remix-oxygen';
+import type {AttributeInput} from '@shopify/hydrogen/storefront-api-types';
+import type {
+  CartApiQueryFragment,
+  LineVariantFragment,
+} from 'storefrontapi.generated';
+import {isGiftLine} from '~/data/cart-goals';
+import {LINE_VARIANT_FRAGMENT} from '~/data/fragments';
+
+/**
+ * Custom `CartForm` action handled by the `/cart` action
+ */
+export const SHARE_CART_ACTION = 'CustomShareCart';
+
+/**
+ * How long a shared cart link can be opened, in seconds
+ */
+export const SHARED_CART_TTL = 60 * 60 * 24 * 30;
+
+export type SharedCartLine = {
+  merchandiseId: string;
+  quantity: number;
+  sellingPlanId?: string;
+  attributes?: AttributeInput[];
+};
+
+export type SharedCart = {
+  lines: SharedCartLine[];
+  discountCodes: string[];
+  /**
+   * Unix time in seconds
+   */
+  expiresAt: number;
+};
+
+export type SharedCartItem = SharedCartLine & {
+  variant: LineVariantFragment | null;
+  available: boolean;
+};
+
+/**
+ * Serializes a cart into a `/cart/shared/<variant_id>:<quantity>,...` link.
+ * Like the `/cart/<lines>` permalinks, each line is a variant id and a
+ * quantity, optionally followed by a selling plan id. Discount codes, line
+ * attributes and the expiry go in the query string, which is signed with the
+ * session secret so links can't be edited or extended.
+ */
+export async function createSharedCartPath(
+  cart: CartApiQueryFragment,
+  secret: string,
+  now = Date.now(),
+) {
+  // gift lines are synced by the recipient's own cart goals
+  const lines = cart.lines.nodes.filter((line) => !isGiftLine(line));
+
+  const path = lines
+    .map((line) =>
+      [
+        getNumericId(line.merchandise.id),
+        line.quantity,
+        line.sellingPlanAllocation
+          ? getNumericId(line.sellingPlanAllocation.sellingPlan.id)
+          : null,
+      ]
+        .filter((part) => part !== null)
+        .join(':'),
+    )
+    .join(',');
+
+  const attributes = Object.fromEntries(
+    lines.flatMap((line, index) =>
+      line.attributes.length
+        ? [
+            [
+              index,
+              line.attributes.map(({key, value}) => ({
+                key,
+                value: value ?? '',
+              })),
+            ],
+          ]
+        : [],
+    ),
+  );
+
+  const searchParams = new URLSearchParams();
+  const discountCodes = cart.discountCodes
+    .filter(({applicable}) => applicable)
+    .map(({code}) => code);
+  if (discountCodes.length) {
+    searchParams.set('discount', discountCodes.join(','));
+  }
+  if (Object.keys(attributes).length) {
+    searchParams.set(
+      'attributes',
+      encodeBase64Url(new TextEncoder().encode(JSON.stringify(attributes))),
+    );
+  }
+  searchParams.set('expires', String(Math.floor(now / 1000) + SHARED_CART_TTL));
+  searchParams.set('signature', await sign(path, searchParams, secret));
+
+  return `/cart/shared/${path}?${searchParams}`;
+}
+
+/**
+ * Reads a link made by `createSharedCartPath`, throwing a response when it
+ * was edited or has expired
+ */
+export async function parseSharedCartPath(
+  path: string,
+  searchParams: URLSearchParams,
+  secret: string,
+  now = Date.now(),
+): Promise<SharedCart> {
+  const signature = searchParams.get('signature');
+  if (!signature || !(await verify(path, searchParams, signature, secret))) {
+    throw new Response('Invalid link', {status: 400});
+  }
+
+  const expiresAt = Number(searchParams.get('expires'));
+  if (!Number.isFinite(expiresAt) || expiresAt * 1000 < now) {
+    throw new Response('This link has expired', {status: 410});
+  }
+
+  let attributes: Record<string, AttributeInput[]> = {};
+  try {
+    const encoded = searchParams.get('attributes');
+    if (encoded) {
+      // signed by `createSharedCartPath`, so the shape can be trusted
+      attributes = JSON.parse(
+        new TextDecoder().decode(decodeBase64Url(encoded)),
+      ) as typeof attributes;
+    }
+  } catch {
+    throw new Response('Invalid link', {status: 400});
+  }
+
+  const lines = path.split(',').map((line, index) => {
+    const [variantId, quantity, sellingPlanId] = line.split(':');
+    if (!/^\d+$/.test(variantId) || !/^[1-9]\d*$/.test(quantity)) {
+      throw new Response('Invalid link', {status: 400});
+    }
+
+    return {
+      merchandiseId: `gid://shopify/ProductVariant/${variantId}`,
+      quantity: Number(quantity),
+      sellingPlanId: sellingPlanId
+        ? `gid://shopify/SellingPlan/${sellingPlanId}`
+        : undefined,
+      attributes: attributes[index],
+    };
+  });
+
+  return {
+    lines,
+    discountCodes: searchParams.get('discount')?.split(',') ?? [],
+    expiresAt,
+  };
+}
+
+/**
+ * The shared lines with their variant. Variants that were deleted or sold
+ * out since the link was made are marked unavailable.
+ */
+export async function getSharedCartItems(
+  storefront: AppLoadContext['storefront'],
+  lines: SharedCartLine[],
+): Promise<SharedCartItem[]> {
+  const {nodes} = await storefront.query(SHARED_CART_QUERY, {
+    variables: {ids: lines.map(({merchandiseId}) => merchandiseId)},
+  });
+
+  return lines.map((line) => {
+    const node = nodes.find(
+      (node) =>
+        node?.__typename === 'ProductVariant' && node.id === line.merchandiseId,
+    );
+    const variant = node?.__typename === 'ProductVariant' ? node : null;
+
+    return {
+      ...line,
+      variant,
+      available: Boolean(variant?.availableForSale),
+    };
+  });
+}
+
+function getNumericId(gid: string) {
+  return gid.split('/').pop()!;
+}
+
+async function sign(
+  path: string,
+  searchParams: URLSearchParams,
+  secret: string,
+) {
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await getSigningKey(secret),
+    new TextEncoder().encode(getSignedContent(path, searchParams)),
+  );
+  return encodeBase64Url(new Uint8Array(signature));
+}
+
+async function verify(
+  path: string,
+  searchParams: URLSearchParams,
+  signature: string,
+  secret: string,
+) {
+  try {
+    return await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(secret),
+      decodeBase64Url(signature),
+      new TextEncoder().encode(getSignedContent(path, searchParams)),
+    );
+  } catch {
+    return false;
+  }
+}
+
+function getSigningKey(secret: string) {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    {name: 'HMAC', hash: 'SHA-256'},
+    false,
+    ['sign', 'verify'],
+  );
+}
+
+/**
+ * The path and the link's own query params in a fixed order, so tracking
+ * params added by messaging apps don't break the signature
+ */
+function getSignedContent(path: string, searchParams: URLSearchParams) {
+  const signed = ['discount', 'attributes', 'expires'].map(
+    (key) => `${key}=${searchParams.get(key) ?? ''}`,
+  );
+  return [path, ...signed].join('&');
+}
+
+function encodeBase64Url(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function decodeBase64Url(value: string) {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+const SHARED_CART_QUERY = `#graphql
+  query SharedCart(
+    $country: CountryCode
+    $ids: [ID!]!
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    nodes(ids: $ids) {
+      __typename
+      ... on ProductVariant {
+        ...LineVariant
+      }
+    }
+  }
+  ${LINE_VARIANT_FRAGMENT}
+` as const;
@@ -0,0 +1,122 @@
+import type {AppLoadContext} from '@shopify/remix-oxygen';
+
+export type SwatchData = {
+  color?: string | null;
+  image?: {
+    url: string;
+    altText?: string | null;
+  } | null;
+};
+
+/**
+ * Swatches keyed by their normalized option value, e.g. `navy blue`
+ */
+export type SwatchMap = Record<string, SwatchData>;
+
+/**
+ * Used when a value has no `color_swatch` metaobject
+ */
+export const FALLBACK_SWATCHES: SwatchMap = {
+  black: {color: '#000000'},
+  white: {color: '#ffffff'},
+  grey: {color: '#808080'},
+  gray: {color: '#808080'},
+  red: {color: '#dc2626'},
+  orange: {color: '#ea580c'},
+  yellow: {color: '#facc15'},
+  green: {color: '#16a34a'},
+  olive: {color: '#6b7c32'},
+  blue: {color: '#2563eb'},
+  navy: {color: '#1e3a8a'},
+  purple: {color: '#9333ea'},
+  pink: {color: '#ec4899'},
+  brown: {color: '#78350f'},
+  beige: {color: '#e8dcc4'},
+  tan: {color: '#d2b48c'},
+  cream: {color: '#fffdd0'},
+  clear: {color: 'transparent'},
+};
+
+/**
+ * Option names whose values are always rendered as swatches,
+ * even when a value has no matching swatch
+ */
+const SWATCH_OPTION_NAMES = /^(colou?r|pattern|finish|material)$/i;
+
+export function normalizeSwatchKey(value: string) {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export function getSwatch(
+  swatches: SwatchMap,
+  value: string,
+): SwatchData | null {
+  const key = normalizeSwatchKey(value);
+  return swatches[key] ?? FALLBACK_SWATCHES[key] ?? null;
+}
+
+export function isSwatchOption(
+  swatches: SwatchMap,
+  name: string,
+  values: string[],
+) {
+  return (
+    SWATCH_OPTION_NAMES.test(name) ||
+    values.some((value) => Boolean(swatches[normalizeSwatchKey(value)]))
+  );
+}
+
+/**
+ * Loads the shop's `color_swatch` metaobjects. Each entry needs an
+ * `option_value` text field and either a `color` or an `image` field.
+ */
+export async function getSwatches(
+  storefront: AppLoadContext['storefront'],
+): Promise<SwatchMap> {
+  const {metaobjects} = await storefront.query(SWATCHES_QUERY, {
+    cache: storefront.CacheLong(),
+  });
+
+  return metaobjects.nodes.reduce<SwatchMap>((swatches, node) => {
+    const value = node.optionValue?.value;
+    if (!value) return swatches;
+
+    const reference = node.image?.reference;
+    const image =
+      reference?.__typename === 'MediaImage' ? reference.image : null;
+
+    swatches[normalizeSwatchKey(value)] = {
+      color: node.color?.value ?? null,
+      image: image ? {url: image.url, altText: image.altText} : null,
+    };
+    return swatches;
+  }, {});
+}
+
+const SWATCHES_QUERY = `#graphql
+  query Swatches($country: CountryCode, $language: LanguageCode)
+    @inContext(country: $country, language: $language) {
+    metaobjects(type: "color_swatch", first: 250) {
+      nodes {
+        id
+        optionValue: field(key: "option_value") {
+          value
+        }
+        color: field(key: "color") {
+          value
+        }
+        image: field(key: "image") {
+          reference {
+            __typename
+            ... on MediaImage {
+              image {
+                url
+                altText
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+` as const;
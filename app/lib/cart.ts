@@ -0,0 +1,261 @@
+import type {Fetcher} from '@remix-run/react';
+import {CartForm, type CartActionInput} from '@shopify/hydrogen';
+import type {
+  AttributeInput,
+  CartLineInput,
+  CurrencyCode,
+  MoneyV2,
+} from '@shopify/hydrogen/storefront-api-types';
+import type {CartApiQueryFragment} from 'storefrontapi.generated';
+import {
+  MOVE_TO_CART_ACTION,
+  SAVE_FOR_LATER_ACTION,
+} from '~/data/saved-for-later';
+
+type CartLine = CartApiQueryFragment['lines']['nodes'][number];
+
+type Attribute = {key: string; value?: string | null};
+
+export type OptimisticCartLine = CartLine & {
+  /**
+   * The line reflects a cart action the server has not confirmed yet
+   */
+  isOptimistic?: boolean;
+};
+
+export type OptimisticCart = Omit<CartApiQueryFragment, 'lines'> & {
+  lines: {nodes: OptimisticCartLine[]};
+  isOptimistic?: boolean;
+};
+
+/**
+ * `LinesAdd` inputs only reference merchandise ids. Add to cart forms pass
+ * the unit price of each merchandise under this input so the subtotal can be
+ * estimated before the new line comes back from the server.
+ */
+export const OPTIMISTIC_PRICES_INPUT = 'optimisticPrices';
+
+export type OptimisticPrices = Record<
+  string,
+  Pick<MoneyV2, 'amount' | 'currencyCode'>
+>;
+
+/**
+ * Cart attributes set by the gift options of the cart. Their keys show up as
+ * is on the order in the Shopify admin.
+ */
+export const GIFT_MESSAGE_ATTRIBUTE = 'Gift message';
+export const GIFT_WRAP_ATTRIBUTE = 'Gift wrap';
+
+/**
+ * Cart attribute naming the store the shopper picks the order up from
+ */
+export const PICKUP_LOCATION_ATTRIBUTE = 'Pickup location';
+
+/**
+ * Attribute updates replace the whole list. Returns the cart's attributes
+ * with a single attribute set, or removed when the value is empty.
+ */
+export function setCartAttribute(
+  attributes: Attribute[] | null | undefined,
+  key: string,
+  value: string,
+): AttributeInput[] {
+  const nextAttributes = (attributes ?? [])
+    .filter((attribute) => attribute.key !== key)
+    .map((attribute) => ({key: attribute.key, value: attribute.value ?? ''}));
+
+  return value ? [...nextAttributes, {key, value}] : nextAttributes;
+}
+
+/**
+ * Attributes whose key starts with an underscore are private, checkout and
+ * the storefront don't display them
+ */
+export function getVisibleAttributes<T extends Attribute>(
+  attributes: T[] | null | undefined,
+) {
+  return (attributes ?? []).filter(
+    ({key, value}) => !key.startsWith('_') && Boolean(value),
+  );
+}
+
+/**
+ * Cart actions submitted by `CartForm`s that are still in flight, oldest
+ * first. Submissions answered with user errors are left out, which rolls the
+ * cart back to its server state.
+ */
+export function getPendingCartActions(fetchers: Fetcher[]) {
+  const actions: CartActionInput[] = [];
+
+  for (const fetcher of fetchers) {
+    if (
+      fetcher.type !== 'actionSubmission' &&
+      fetcher.type !== 'actionReload'
+    ) {
+      continue;
+    }
+    if (!fetcher.formData?.has(CartForm.INPUT_NAME)) continue;
+    if (fetcher.data?.errors?.length) continue;
+
+    actions.push(CartForm.getFormInput(fetcher.formData));
+  }
+
+  return actions;
+}
+
+/**
+ * Applies pending cart actions on top of the last cart returned by the
+ * server. Lines removed optimistically are kept with a zero quantity so the
+ * forms that removed them stay mounted until the action settles.
+ */
+export function applyCartActions(
+  cart: CartApiQueryFragment,
+  actions: CartActionInput[],
+): OptimisticCart {
+  if (!actions.length) return cart;
+
+  let lines: OptimisticCartLine[] = cart.lines.nodes;
+  // merchandise added without a matching line in the cart yet
+  let addedQuantity = 0;
+  let addedAmount = 0;
+
+  const setQuantity = (lineId: string, quantity: number) => {
+    lines = lines.map((line) =>
+      line.id === lineId ? withQuantity(line, quantity) : line,
+    );
+  };
+
+  for (const {action, inputs} of actions) {
+    switch (action) {
+      // saved lines moved back send their line along for the estimate
+      case MOVE_TO_CART_ACTION:
+      case CartForm.ACTIONS.LinesAdd: {
+        const prices = (inputs[OPTIMISTIC_PRICES_INPUT] ??
+          {}) as OptimisticPrices;
+        const addedLines = (inputs.lines ?? []) as CartLineInput[];
+        for (const {merchandiseId, sellingPlanId, ...input} of addedLines) {
+          const quantity = input.quantity ?? 1;
+          // lines only merge when their attributes match, e.g. engravings
+          const line = lines.find(
+            (line) =>
+              line.merchandise.id === merchandiseId &&
+              (line.sellingPlanAllocation?.sellingPlan.id ?? null) ===
+                (sellingPlanId ?? null) &&
+              haveSameAttributes(line.attributes, input.attributes ?? []),
+          );
+          if (line) {
+            setQuantity(line.id, line.quantity + quantity);
+          } else {
+            addedQuantity += quantity;
+            addedAmount +=
+              Number(prices[merchandiseId]?.amount ?? 0) * quantity;
+          }
+        }
+        break;
+      }
+      case CartForm.ACTIONS.LinesUpdate: {
+        for (const {id, quantity} of inputs.lines) {
+          if (typeof quantity === 'number') setQuantity(id, quantity);
+        }
+        break;
+      }
+      case CartForm.ACTIONS.LinesRemove: {
+        for (const lineId of inputs.lineIds) setQuantity(lineId, 0);
+        break;
+      }
+      case SAVE_FOR_LATER_ACTION: {
+        setQuantity(String(inputs.lineId), 0);
+        break;
+      }
+    }
+  }
+
+  const totalQuantity =
+    cart.totalQuantity +
+    sumQuantity(lines) -
+    sumQuantity(cart.lines.nodes) +
+    addedQuantity;
+  const subtotalChange =
+    sumAmount(lines) - sumAmount(cart.lines.nodes) + addedAmount;
+  const subtotal = Number(cart.cost.subtotalAmount.amount) + subtotalChange;
+  // taxes and duties are left as they were, the total only follows the lines
+  const total = Number(cart.cost.totalAmount.amount) + subtotalChange;
+
+  return {
+    ...cart,
+    isOptimistic: true,
+    totalQuantity: Math.max(0, totalQuantity),
+    lines: {...cart.lines, nodes: lines},
+    cost: {
+      ...cart.cost,
+      subtotalAmount: {
+        ...cart.cost.subtotalAmount,
+        amount: toAmount(
+          Math.max(0, subtotal),
+          cart.cost.subtotalAmount.currencyCode,
+        ),
+      },
+      totalAmount: {
+        ...cart.cost.totalAmount,
+        amount: toAmount(
+          Math.max(0, total),
+          cart.cost.totalAmount.currencyCode,
+        ),
+      },
+    },
+  };
+}
+
+function withQuantity(
+  line: OptimisticCartLine,
+  quantity: number,
+): OptimisticCartLine {
+  const {amountPerQuantity, totalAmount} = line.cost;
+  const amount = Number(amountPerQuantity.amount) * quantity;
+  return {
+    ...line,
+    isOptimistic: true,
+    quantity,
+    cost: {
+      ...line.cost,
+      totalAmount: {
+        ...totalAmount,
+        amount: toAmount(amount, totalAmount.currencyCode),
+      },
+    },
+  };
+}
+
+/**
+ * Rounds an amount to the decimals of its currency, e.g. two for USD and
+ * none for JPY
+ */
+export function toAmount(amount: number, currencyCode: CurrencyCode) {
+  const {maximumFractionDigits} = new Intl.NumberFormat('en', {
+    style: 'currency',
+    currency: currencyCode,
+  }).resolvedOptions();
+
+  return amount.toFixed(maximumFractionDigits);
+}
+
+function haveSameAttributes(a: Attribute[], b: Attribute[]) {
+  return (
+    a.length === b.length &&
+    a.every(({key, value}) =>
+      b.some((attribute) => attribute.key === key && attribute.value === value),
+    )
+  );
+}
+
+function sumQuantity(lines: OptimisticCartLine[]) {
+  return lines.reduce((total, line) => total + line.quantity, 0);
+}
+
+function sumAmount(lines: OptimisticCartLine[]) {
+  return lines.reduce(
+    (total, line) => total + Number(line.cost.totalAmount.amount),
+    0,
+  );
+}
@@ -0,0 +1,112 @@
+import type {
+  CountryCode,
+  LanguageCode,
+} from '@shopify/hydrogen/storefront-api-types';
+
+export type I18nLocale = {
+  language: LanguageCode;
+  country: CountryCode;
+  /**
+   * Path segment serving the locale, e.g. `/es-es`. Empty for the default
+   * locale, which is served from the root.
+   */
+  pathPrefix: string;
+};
+
+export const DEFAULT_LOCALE: I18nLocale = {
+  language: 'EN',
+  country: 'US',
+  pathPrefix: '',
+};
+
+/**
+ * Every locale the storefront is served in, default locale first. This is the
+ * single registry used by the server, the router and the client.
+ */
+export const SUPPORTED_LOCALES: I18nLocale[] = [
+  DEFAULT_LOCALE,
+  {language: 'ES', country: 'ES', pathPrefix: '/es-es'},
+  {language: 'FR', country: 'FR', pathPrefix: '/fr-fr'},
+  {language: 'DE', country: 'DE', pathPrefix: '/de-de'},
+  {language: 'JA', country: 'JP', pathPrefix: '/ja-jp'},
+];
+
+/**
+ * Finds the locale of a `($locale)` path segment, e.g. `es-es`
+ */
+export function getLocaleFromPathSegment(segment?: string | null) {
+  if (!segment) return null;
+  const pathPrefix = `/${segment.toLowerCase()}`;
+  return (
+    SUPPORTED_LOCALES.find(
+      (locale) => locale.pathPrefix && locale.pathPrefix === pathPrefix,
+    ) ?? null
+  );
+}
+
+/**
+ * Resolves the locale from the path prefix. Unprefixed paths use the default
+ * language with the country the shopper picked, if any.
+ */
+export function getLocaleFromRequest(
+  request: Request,
+  selectedCountry?: CountryCode | null,
+): I18nLocale {
+  const url = new URL(request.url);
+  const firstPathSegment = url.pathname.split('/')[1];
+
+  return (
+    getLocaleFromPathSegment(firstPathSegment) ??
+    (selectedCountry
+      ? {...DEFAULT_LOCALE, country: selectedCountry}
+      : DEFAULT_LOCALE)
+  );
+}
+
+/**
+ * Locale serving a country. Countries without a translated storefront are
+ * served from the unprefixed paths in the default language.
+ */
+export function getLocaleFromCountry(country?: CountryCode | null) {
+  if (!country) return DEFAULT_LOCALE;
+
+  return (
+    SUPPORTED_LOCALES.find((locale) => locale.country === country) ?? {
+      ...DEFAULT_LOCALE,
+      country,
+    }
+  );
+}
+
+/**
+ * Prefixes an internal path with the locale path segment, e.g.
+ * `/products/shoe` becomes `/es-es/products/shoe`. External URLs and
+ * paths that are already localized are returned untouched.
+ */
+export function localizePath(path: string, locale: I18nLocale) {
+  if (!path.startsWith('/') || path.startsWith('//')) return path;
+  if (getLocaleFromPathSegment(path.split(/[/?#]/)[1])) return path;
+  if (!locale.pathPrefix) return path;
+
+  return path === '/' ? locale.pathPrefix : locale.pathPrefix + path;
+}
+
+/**
+ * Removes the locale path segment, e.g. `/es-es/products/shoe` becomes
+ * `/products/shoe`
+ */
+export function stripLocaleFromPath(path: string) {
+  const [, firstSegment] = path.split(/[/?#]/);
+  const locale = getLocaleFromPathSegment(firstSegment);
+  if (!locale) return path;
+
+  const rest = path.slice(locale.pathPrefix.length);
+  return rest.startsWith('/') ? rest : `/${rest}`;
+}
+
+/**
+ * BCP 47 tag used by `hreflang`, e.g. `ja-JP`
+ */
+export function getHreflang(locale: I18nLocale) {
+  return `${locale.language.toLowerCase()}-${locale.country}`;
+}
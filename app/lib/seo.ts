@@ -0,0 +1,222 @@
+import type {V2_MetaArgs, V2_MetaDescriptor} from '@remix-run/react';
+import {
+  DEFAULT_LOCALE,
+  SUPPORTED_LOCALES,
+  getHreflang,
+  localizePath,
+  stripLocaleFromPath,
+  type I18nLocale,
+} from '~/lib/i18n';
+
+export type SeoImage = {
+  url: string;
+  altText?: string | null;
+  width?: number | null;
+  height?: number | null;
+};
+
+export type SeoInput = {
+  title?: string | null;
+  description?: string | null;
+  image?: SeoImage | null;
+  /**
+   * Unlocalized path of the canonical page, defaults to the current path
+   */
+  path?: string;
+  type?: 'website' | 'product' | 'article';
+  /**
+   * Keep the page out of search results while letting crawlers follow links
+   */
+  noindex?: boolean;
+};
+
+/**
+ * Title template for every page. `%s` is replaced with the page title and
+ * `%shop` with the shop name from the root `HEADER_QUERY`.
+ */
+export const SEO_TITLE_TEMPLATE = '%s | %shop';
+
+/**
+ * Search params that only narrow down or paginate a listing. Pages that use
+ * them are duplicates of their unfiltered version.
+ */
+const NOINDEX_SEARCH_PARAMS = [
+  'cursor',
+  'direction',
+  'sort',
+  'available',
+  'minPrice',
+  'maxPrice',
+  'productType',
+  'productVendor',
+  'variantOption',
+];
+
+/**
+ * Prefixes of search params added by Shopify search and analytics or by ad
+ * campaigns. They never change the page content.
+ */
+const TRACKING_SEARCH_PARAM_PREFIXES = [
+  '_sid',
+  '_pos',
+  '_psq',
+  '_ss',
+  '_v',
+  'utm_',
+  'fbclid',
+  'gclid',
+];
+
+const DESCRIPTION_MAX_LENGTH = 155;
+
+type RootData = {
+  baseUrl?: string;
+  selectedLocale?: I18nLocale;
+  header?: {shop?: {name?: string; description?: string | null}};
+};
+
+/**
+ * Builds the meta tags shared by every route: title, description, canonical
+ * URL, hreflang alternates, Open Graph, Twitter card and robots directives.
+ *
+ * @example
+ * ```ts
+ * export const meta: V2_MetaFunction<typeof loader> = (args) =>
+ *   getSeoMeta(args, {title: args.data?.page.title});
+ * ```
+ */
+export function getSeoMeta(
+  {matches, location}: Pick<V2_MetaArgs, 'matches' | 'location'>,
+  seo: SeoInput = {},
+): V2_MetaDescriptor[] {
+  const root = matches.find((match) => match.id === 'root')?.data as
+    | RootData
+    | undefined;
+  const shopName = root?.header?.shop?.name ?? '';
+  const baseUrl = root?.baseUrl ?? '';
+  const locale = root?.selectedLocale ?? DEFAULT_LOCALE;
+
+  const title = formatTitle(seo.title, shopName);
+  const description = truncate(
+    stripHtml(seo.description || root?.header?.shop?.description || ''),
+  );
+  const path = stripLocaleFromPath(seo.path ?? location.pathname);
+  const search = seo.path ? '' : getCanonicalSearch(location.search);
+  const getLocaleUrl = (target: I18nLocale) =>
+    baseUrl + localizePath(path, target) + search;
+  const url = getLocaleUrl(locale);
+  const noindex = seo.noindex || hasNoindexSearchParams(location.search);
+  const {image} = seo;
+
+  const tags: V2_MetaDescriptor[] = [
+    {title},
+    {tagName: 'link', rel: 'canonical', href: url},
+    ...SUPPORTED_LOCALES.map((alternate) => ({
+      tagName: 'link',
+      rel: 'alternate',
+      hrefLang: getHreflang(alternate),
+      href: getLocaleUrl(alternate),
+    })),
+    {
+      tagName: 'link',
+      rel: 'alternate',
+      hrefLang: 'x-default',
+      href: getLocaleUrl(DEFAULT_LOCALE),
+    },
+    {property: 'og:title', content: title},
+    {property: 'og:type', content: seo.type ?? 'website'},
+    {property: 'og:url', content: url},
+    {
+      name: 'twitter:card',
+      content: image ? 'summary_large_image' : 'summary',
+    },
+    {name: 'twitter:title', content: title},
+  ];
+
+  if (shopName) {
+    tags.push({property: 'og:site_name', content: shopName});
+  }
+
+  if (description) {
+    tags.push(
+      {name: 'description', content: description},
+      {property: 'og:description', content: description},
+      {name: 'twitter:description', content: description},
+    );
+  }
+
+  if (image?.url) {
+    tags.push(
+      {property: 'og:image', content: image.url},
+      {property: 'og:image:secure_url', content: image.url},
+      {name: 'twitter:image', content: image.url},
+    );
+    if (image.width && image.height) {
+      tags.push(
+        {property: 'og:image:width', content: String(image.width)},
+        {property: 'og:image:height', content: String(image.height)},
+      );
+    }
+    if (image.altText) {
+      tags.push(
+        {property: 'og:image:alt', content: image.altText},
+        {name: 'twitter:image:alt', content: image.altText},
+      );
+    }
+  }
+
+  if (noindex) {
+    tags.push({name: 'robots', content: 'noindex,follow'});
+  }
+
+  return tags;
+}
+
+/**
+ * Whether a search param only tracks where the visit came from, e.g. the
+ * `_pos` param appended to predictive search result links
+ */
+export function isTrackingSearchParam(name: string) {
+  return TRACKING_SEARCH_PARAM_PREFIXES.some((prefix) =>
+    name.startsWith(prefix),
+  );
+}
+
+/**
+ * Search params that identify the canonical page. Tracking and listing
+ * params are dropped so every variant of a URL shares one canonical.
+ */
+function getCanonicalSearch(search: string) {
+  const params = new URLSearchParams(search);
+  for (const name of [...params.keys()]) {
+    if (isTrackingSearchParam(name) || NOINDEX_SEARCH_PARAMS.includes(name)) {
+      params.delete(name);
+    }
+  }
+  params.sort();
+  const canonicalSearch = params.toString();
+  return canonicalSearch ? `?${canonicalSearch}` : '';
+}
+
+function formatTitle(title: string | null | undefined, shopName: string) {
+  if (!title) return shopName;
+  if (!shopName || title === shopName) return title;
+  return SEO_TITLE_TEMPLATE.replace('%s', title).replace('%shop', shopName);
+}
+
+function hasNoindexSearchParams(search: string) {
+  const params = new URLSearchParams(search);
+  return NOINDEX_SEARCH_PARAMS.some((param) => params.has(param));
+}
+
+function stripHtml(value: string) {
+  return value
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function truncate(value: string) {
+  if (value.length <= DESCRIPTION_MAX_LENGTH) return value;
+  return value.slice(0, DESCRIPTION_MAX_LENGTH - 1).trimEnd() + '…';
+}
@@ -0,0 +1,268 @@
+import type {AppLoadContext} from '@shopify/remix-oxygen';
+import {DEFAULT_LOCALE, SUPPORTED_LOCALES, getHreflang} from '~/lib/i18n';
+
+/**
+ * The google limit is 50K URLs per sitemap, however, the storefront API
+ * allows querying only 250 resources per pagination page, so every child
+ * sitemap maps to one Storefront API page
+ */
+export const SITEMAP_PAGE_SIZE = 250;
+
+export const SITEMAP_TYPES = [
+  'products',
+  'collections',
+  'pages',
+  'blogs',
+  'articles',
+] as const;
+
+export type SitemapType = (typeof SITEMAP_TYPES)[number];
+
+export type SitemapImage = {
+  url: string;
+  title?: string | null;
+  caption?: string | null;
+};
+
+export type SitemapEntry = {
+  /**
+   * Path of the resource, prefixed with the path of every locale
+   */
+  path: string;
+  lastMod?: string | null;
+  changeFreq?: 'daily' | 'weekly' | 'monthly';
+  images?: SitemapImage[];
+};
+
+type PageInfo = {hasNextPage: boolean; endCursor?: string | null};
+
+export function isSitemapType(value?: string): value is SitemapType {
+  return SITEMAP_TYPES.includes(value as SitemapType);
+}
+
+/**
+ * Returns the `after` cursor of every sitemap page of a resource. Walking the
+ * Storefront API cursors takes one query per page, so the whole list is
+ * cached and the index and every child sitemap share it.
+ */
+export function getSitemapCursors(
+  {storefront, withCache}: Pick<AppLoadContext, 'storefront' | 'withCache'>,
+  type: SitemapType,
+) {
+  return withCache(['sitemap-cursors', type], storefront.CacheLong(), () =>
+    walkSitemapCursors(storefront, type),
+  ) as Promise<Array<string | null>>;
+}
+
+export function getSitemapUrl(origin: string, type: SitemapType, page: number) {
+  return `${origin}/sitemap/${type}/${page}.xml`;
+}
+
+export function xmlEncode(string: string) {
+  return string.replace(/[&<>'"]/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+export function renderSitemapIndex(urls: string[]) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+    <sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+      ${urls
+        .map((url) => `<sitemap><loc>${xmlEncode(url)}</loc></sitemap>`)
+        .join('')}
+    </sitemapindex>`;
+}
+
+/**
+ * Renders a `urlset` for the default locale, linking every entry to its
+ * translations with `xhtml:link` alternates
+ */
+export function renderUrlSet({
+  entries,
+  requestUrl,
+}: {
+  entries: SitemapEntry[];
+  requestUrl: string;
+}) {
+  const origin = new URL(requestUrl).origin;
+  const alternates = [
+    ...SUPPORTED_LOCALES.map((locale) => ({
+      hreflang: getHreflang(locale),
+      pathPrefix: locale.pathPrefix,
+    })),
+    {hreflang: 'x-default', pathPrefix: DEFAULT_LOCALE.pathPrefix},
+  ];
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+    <urlset
+      xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"
+      xmlns:image="http://www.google.com/schemas/sitemap-image/1.1"
+      xmlns:xhtml="http://www.w3.org/1999/xhtml"
+    >
+      ${entries
+        .map((entry) => renderUrlTag({entry, origin, alternates}))
+        .join('')}
+    </urlset>`;
+}
+
+export function sitemapResponse(body: string) {
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'application/xml',
+
+      'Cache-Control': `max-age=${60 * 60 * 24}`,
+    },
+  });
+}
+
+function renderUrlTag({
+  entry: {path, lastMod, changeFreq, images = []},
+  origin,
+  alternates,
+}: {
+  entry: SitemapEntry;
+  origin: string;
+  alternates: Array<{hreflang: string; pathPrefix: string}>;
+}) {
+  const alternateTags = alternates
+    .map(
+      (alternate) =>
+        `<xhtml:link rel="alternate" hreflang="${
+          alternate.hreflang
+        }" href="${xmlEncode(origin + alternate.pathPrefix + path)}" />`,
+    )
+    .join('');
+
+  const imageTags = images
+    .map((image) =>
+      `<image:image>
+        <image:loc>${xmlEncode(image.url)}</image:loc>
+        ${
+          image.title
+            ? `<image:title>${xmlEncode(image.title)}</image:title>`
+            : ''
+        }
+        ${
+          image.caption
+            ? `<image:caption>${xmlEncode(image.caption)}</image:caption>`
+            : ''
+        }
+      </image:image>`.trim(),
+    )
+    .join('');
+
+  return `
+    <url>
+      <loc>${xmlEncode(origin + path)}</loc>
+      ${lastMod ? `<lastmod>${lastMod}</lastmod>` : ''}
+      ${changeFreq ? `<changefreq>${changeFreq}</changefreq>` : ''}
+      ${alternateTags}
+      ${imageTags}
+    </url>
+  `.trim();
+}
+
+async function walkSitemapCursors(
+  storefront: AppLoadContext['storefront'],
+  type: SitemapType,
+) {
+  const cursors: Array<string | null> = [null];
+  let pageInfo = await getPageInfo(storefront, type, null);
+
+  while (pageInfo.hasNextPage && pageInfo.endCursor) {
+    cursors.push(pageInfo.endCursor);
+    pageInfo = await getPageInfo(storefront, type, pageInfo.endCursor);
+  }
+
+  return cursors;
+}
+
+async function getPageInfo(
+  storefront: AppLoadContext['storefront'],
+  type: SitemapType,
+  after: string | null,
+): Promise<PageInfo> {
+  const options = {
+    variables: {first: SITEMAP_PAGE_SIZE, after},
+    cache: storefront.CacheLong(),
+  };
+
+  switch (type) {
+    case 'products':
+      return (await storefront.query(PRODUCTS_PAGE_INFO_QUERY, options))
+        .products.pageInfo;
+    case 'collections':
+      return (await storefront.query(COLLECTIONS_PAGE_INFO_QUERY, options))
+        .collections.pageInfo;
+    case 'pages':
+      return (await storefront.query(PAGES_PAGE_INFO_QUERY, options)).pages
+        .pageInfo;
+    case 'blogs':
+      return (await storefront.query(BLOGS_PAGE_INFO_QUERY, options)).blogs
+        .pageInfo;
+    case 'articles':
+      return (await storefront.query(ARTICLES_PAGE_INFO_QUERY, options))
+        .articles.pageInfo;
+  }
+}
+
+const PRODUCTS_PAGE_INFO_QUERY = `#graphql
+  query SitemapProductsPageInfo($first: Int!, $after: String) {
+    products(
+      first: $first
+      after: $after
+      query: "published_status:'online_store:visible'"
+    ) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+` as const;
+
+const COLLECTIONS_PAGE_INFO_QUERY = `#graphql
+  query SitemapCollectionsPageInfo($first: Int!, $after: String) {
+    collections(
+      first: $first
+      after: $after
+      query: "published_status:'online_store:visible'"
+    ) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+` as const;
+
+const PAGES_PAGE_INFO_QUERY = `#graphql
+  query SitemapPagesPageInfo($first: Int!, $after: String) {
+    pages(first: $first, after: $after, query: "published_status:'published'") {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+` as const;
+
+const BLOGS_PAGE_INFO_QUERY = `#graphql
+  query SitemapBlogsPageInfo($first: Int!, $after: String) {
+    blogs(first: $first, after: $after) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+` as const;
+
+const ARTICLES_PAGE_INFO_QUERY = `#graphql
+  query SitemapArticlesPageInfo($first: Int!, $after: String) {
+    articles(first: $first, after: $after) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+` as const;
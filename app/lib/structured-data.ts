@@ -0,0 +1,224 @@
+import type {
+  ProductFragment,
+  ProductVariantFragment,
+  ProductCardFragment,
+} from 'storefrontapi.generated';
+import type {MoneyV2} from '@shopify/hydrogen/storefront-api-types';
+import {getVariantUrl} from '~/utils';
+
+/**
+ * A schema.org node serialized as JSON-LD
+ * @see https://developers.google.com/search/docs/appearance/structured-data/intro-structured-data
+ */
+export type JsonLd = {
+  '@context'?: 'https://schema.org';
+  '@type': string;
+  [key: string]: unknown;
+};
+
+export type Breadcrumb = {
+  name: string;
+  /**
+   * Absolute URL of the crumb. The last crumb can omit it.
+   */
+  url?: string;
+};
+
+type Money = Pick<MoneyV2, 'amount' | 'currencyCode'>;
+
+const CONTEXT = 'https://schema.org' as const;
+
+export function organizationJsonLd({
+  shop,
+  baseUrl,
+}: {
+  shop: {name: string; description?: string | null; logoUrl?: string | null};
+  baseUrl: string;
+}): JsonLd {
+  return {
+    '@context': CONTEXT,
+    '@type': 'Organization',
+    name: shop.name,
+    url: baseUrl,
+    ...(shop.description && {description: shop.description}),
+    ...(shop.logoUrl && {logo: shop.logoUrl}),
+  };
+}
+
+export function webSiteJsonLd({
+  shop,
+  baseUrl,
+}: {
+  shop: {name: string};
+  baseUrl: string;
+}): JsonLd {
+  return {
+    '@context': CONTEXT,
+    '@type': 'WebSite',
+    name: shop.name,
+    url: baseUrl,
+    potentialAction: {
+      '@type': 'SearchAction',
+      target: {
+        '@type': 'EntryPoint',
+        urlTemplate: `${baseUrl}/search?q={search_term_string}`,
+      },
+      'query-input': 'required name=search_term_string',
+    },
+  };
+}
+
+export function breadcrumbListJsonLd(crumbs: Breadcrumb[]): JsonLd {
+  return {
+    '@context': CONTEXT,
+    '@type': 'BreadcrumbList',
+    itemListElement: crumbs.map((crumb, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: crumb.name,
+      ...(crumb.url && {item: crumb.url}),
+    })),
+  };
+}
+
+export function productJsonLd({
+  product,
+  variants,
+  url,
+}: {
+  product: Pick<
+    ProductFragment,
+    'title' | 'description' | 'vendor' | 'handle' | 'media'
+  >;
+  variants: Array<
+    Pick<
+      ProductVariantFragment,
+      'availableForSale' | 'price' | 'selectedOptions' | 'sku' | 'image'
+    >
+  >;
+  /**
+   * Absolute URL of the product page, without search params. The variant
+   * URLs keep its locale prefix.
+   */
+  url: string;
+}): JsonLd {
+  const {origin, pathname} = new URL(url);
+  const images = product.media.nodes
+    .map((media) => media.previewImage?.url)
+    .filter(Boolean);
+
+  return {
+    '@context': CONTEXT,
+    '@type': 'Product',
+    name: product.title,
+    url,
+    ...(product.description && {description: product.description}),
+    ...(product.vendor && {brand: {'@type': 'Brand', name: product.vendor}}),
+    ...(images.length && {image: images}),
+    ...(variants.length === 1 && variants[0].sku && {sku: variants[0].sku}),
+    offers: variants.map((variant) => ({
+      '@type': 'Offer',
+      ...priceSpecification(variant.price),
+      availability: variant.availableForSale
+        ? 'https://schema.org/InStock'
+        : 'https://schema.org/OutOfStock',
+      itemCondition: 'https://schema.org/NewCondition',
+      ...(variant.sku && {sku: variant.sku}),
+      ...(variant.image?.url && {image: variant.image.url}),
+      url:
+        origin +
+        getVariantUrl({
+          handle: product.handle,
+          pathname,
+          searchParams: new URLSearchParams(),
+          selectedOptions: variant.selectedOptions,
+        }),
+    })),
+  };
+}
+
+export function collectionPageJsonLd({
+  collection,
+  products,
+  url,
+}: {
+  collection: {title: string; description?: string | null};
+  products: Array<Pick<ProductCardFragment, 'handle' | 'title'>>;
+  /**
+   * Absolute URL of the collection page. The product URLs keep its locale
+   * prefix.
+   */
+  url: string;
+}): JsonLd {
+  const {origin, pathname} = new URL(url);
+
+  return {
+    '@context': CONTEXT,
+    '@type': 'CollectionPage',
+    name: collection.title,
+    url,
+    ...(collection.description && {description: collection.description}),
+    mainEntity: {
+      '@type': 'ItemList',
+      numberOfItems: products.length,
+      itemListElement: products.map((product, index) => ({
+        '@type': 'ListItem',
+        position: index + 1,
+        name: product.title,
+        url:
+          origin +
+          getVariantUrl({
+            handle: product.handle,
+            pathname,
+            searchParams: new URLSearchParams(),
+            selectedOptions: [],
+          }),
+      })),
+    },
+  };
+}
+
+export function articleJsonLd({
+  article,
+  blog,
+  url,
+}: {
+  article: {
+    title: string;
+    publishedAt: string;
+    author?: {name: string} | null;
+    image?: {url: string} | null;
+    seo?: {description?: string | null} | null;
+  };
+  blog: {title: string; url: string};
+  url: string;
+}): JsonLd {
+  return {
+    '@context': CONTEXT,
+    '@type': 'BlogPosting',
+    headline: article.title,
+    url,
+    mainEntityOfPage: url,
+    datePublished: article.publishedAt,
+    ...(article.seo?.description && {description: article.seo.description}),
+    ...(article.image?.url && {image: article.image.url}),
+    ...(article.author?.name && {
+      author: {'@type': 'Person', name: article.author.name},
+    }),
+    isPartOf: {'@type': 'Blog', name: blog.title, url: blog.url},
+  };
+}
+
+/**
+ * Serializes JSON-LD so it can be safely inlined in a `<script>` tag
+ */
+export function serializeJsonLd(data: JsonLd | JsonLd[]) {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
+
+function priceSpecification(price: Money) {
+  return {
+    price: price.amount,
+    priceCurrency: price.currencyCode,
+  };
+}
@@ -0,0 +1,31 @@
+import type {LanguageCode} from '@shopify/hydrogen/storefront-api-types';
+import {translate, type Catalog, type Translate} from './index';
+import en from './en';
+import es from './es';
+import fr from './fr';
+import de from './de';
+import ja from './ja';
+
+const CATALOGS: Partial<Record<LanguageCode, Catalog>> = {
+  EN: en,
+  ES: es,
+  FR: fr,
+  DE: de,
+  JA: ja,
+};
+
+/**
+ * Catalog of a language, English when the language has none. Only the
+ * active catalog is sent to the browser by the root loader.
+ */
+export function getCatalog(language: LanguageCode): Catalog {
+  return CATALOGS[language] ?? en;
+}
+
+/**
+ * Translates messages in loaders and actions, e.g. form validation errors
+ */
+export function getTranslator(language: LanguageCode): Translate {
+  const catalog = getCatalog(language);
+  return (key, values) => translate(catalog, language, key, values);
+}
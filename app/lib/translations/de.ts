@@ -0,0 +1,290 @@
+import type {Catalog} from './index';
+
+const de: Catalog = {
+  // common
+  'common.emailAddress': 'E-Mail-Adresse',
+  'common.password': 'Passwort',
+  'common.passwordConfirm': 'Passwort wiederholen',
+  'common.loading': 'Wird geladen…',
+  'common.loadPrevious': 'Vorherige laden',
+  'common.loadMore': 'Mehr laden',
+  'common.error': 'Fehler',
+  'common.home': 'Startseite',
+  'common.errorOccurred': 'Ein Fehler ist aufgetreten',
+  'common.save': 'Speichern',
+  'common.saving': 'Wird gespeichert',
+  'common.methodNotAllowed': 'Methode nicht erlaubt',
+
+  // header
+  'header.account': 'Konto',
+  'header.search': 'Suche',
+  'header.menu': 'Menü',
+  'header.cartLabel': {
+    one: 'Warenkorb, {count} Artikel',
+    other: 'Warenkorb, {count} Artikel',
+  },
+
+  // footer
+  'footer.changeCountry': 'Land ändern',
+  'footer.countryRegion': 'Land/Region',
+
+  // product
+  'product.addToCart': 'In den Warenkorb',
+  'product.quickAdd': 'Schnell hinzufügen',
+  'product.subscribe': 'Abonnieren',
+  'product.soldOut': 'Ausverkauft',
+  'product.sale': 'Sale',
+  'product.unavailable': 'nicht verfügbar',
+  'product.price': 'Preis',
+  'product.quantity': 'Menge',
+  'product.optionQuantity': 'Menge {value}',
+  'product.quantityMinimum': 'Mindestens {count}',
+  'product.quantityIncrement': 'Nur in Vielfachen von {count}',
+  'product.quantityMaximum': 'Nur noch {count} verfügbar',
+  'product.decreaseQuantity': '{label} verringern',
+  'product.increaseQuantity': '{label} erhöhen',
+  'product.purchaseOptions': 'Kaufoptionen',
+  'product.oneTimePurchase': 'Einmalkauf',
+  'product.savePercentage': '{percentage} % sparen',
+  'product.saveAmount': '{amount} sparen',
+  'product.orderMultiple': 'Mehrere Optionen für {option} bestellen',
+  'product.orderSingle': 'Eine einzelne Option für {option} bestellen',
+  'product.addCountToCart': '{count} in den Warenkorb',
+  'product.selectQuantities': 'Mengen auswählen',
+  'product.variantsError':
+    'Beim Laden der Produktvarianten ist ein Problem aufgetreten',
+  'product.completeTheLook': 'Vervollständige den Look',
+  'product.youMayAlsoLike': 'Das könnte dir auch gefallen',
+  'product.carousel.scrollLeft': 'Nach links scrollen',
+  'product.carousel.scrollRight': 'Nach rechts scrollen',
+  'product.gallery.label': 'Produktmedien',
+  'product.gallery.slide': '{number} von {total}',
+  'product.gallery.previous': 'Vorheriges Medium',
+  'product.gallery.next': 'Nächstes Medium',
+  'product.gallery.show': 'Medium {number} anzeigen',
+  'product.gallery.zoom': 'Bild vergrößern',
+  'product.gallery.zoomIn': 'Hineinzoomen',
+  'product.gallery.zoomOut': 'Herauszoomen',
+  'product.gallery.image': 'Produktbild',
+  'product.gallery.model': '3D-Modell des Produkts',
+  'product.pickup.title': 'Verfügbarkeit zur Abholung',
+  'product.pickup.description': 'Bestand und Abholzeiten in jedem Geschäft.',
+  'product.pickup.available': 'Abholung verfügbar in {location}',
+  'product.pickup.unavailable':
+    'Abholung derzeit nicht verfügbar in {location}',
+  'product.pickup.viewAll': 'Verfügbarkeit in allen Geschäften prüfen',
+  'product.pickup.select': 'Hier abholen',
+  'product.pickup.selected': 'Dein Abholgeschäft',
+  'product.personalizationHint': 'Bis zu {count} Zeichen',
+
+  // cart
+  'cart.title': 'Warenkorb',
+  'cart.loading': 'Warenkorb wird geladen…',
+  'cart.quantity': 'Menge: {quantity}',
+  'cart.perDelivery': 'pro Lieferung',
+  'cart.checkout': 'Weiter zur Kasse',
+  'cart.totals': 'Summe',
+  'cart.subtotal': 'Zwischensumme',
+  'cart.youSave': 'Du sparst {amount}',
+  'cart.estimatedTax': 'Geschätzte Steuern',
+  'cart.duties': 'Zölle',
+  'cart.total': 'Gesamt',
+  'cart.calculatedAtCheckout': 'Wird an der Kasse berechnet',
+  'cart.shipping.title': 'Versand berechnen',
+  'cart.shipping.province': 'Bundesland/Provinz',
+  'cart.shipping.zip': 'Postleitzahl',
+  'cart.shipping.submit': 'Berechnen',
+  'cart.shipping.shipment': 'Sendung {number}',
+  'cart.shipping.free': 'Kostenlos',
+  'cart.shipping.unavailable':
+    'Für diese Adresse können keine Versandkosten berechnet werden. Sie werden an der Kasse berechnet.',
+  'cart.remove': 'Entfernen',
+  'cart.selectAll': 'Alle auswählen',
+  'cart.selectLine': '{title} auswählen',
+  'cart.removeSelected': 'Auswahl entfernen ({count})',
+  'cart.updating': 'Wird aktualisiert',
+  'cart.saveForLater': 'Für später speichern',
+  'cart.savedForLater': 'Für später gespeichert',
+  'cart.moveToCart': 'In den Warenkorb legen',
+  'cart.recommendations': 'Passt zu deinem Warenkorb',
+  'cart.share': 'Warenkorb teilen',
+  'cart.shareLink': 'Link zu diesem Warenkorb',
+  'cart.copyLink': 'Link kopieren',
+  'cart.linkCopied': 'Link kopiert',
+  'cart.empty': 'Du hast noch nichts hinzugefügt – lass uns loslegen!',
+  'cart.continueShopping': 'Weiter einkaufen',
+  'cart.discounts': 'Rabatt(e)',
+  'cart.discountCode': 'Rabattcode',
+  'cart.applyDiscount': 'Rabatt anwenden',
+  'cart.discount': 'Rabatt',
+  'cart.discountApplied': 'Rabattcode {code} angewendet',
+  'cart.discountRemoved': 'Rabattcode {code} entfernt',
+  'cart.discountNotApplied': 'Rabattcode {code} kann nicht angewendet werden',
+  'cart.discountNotApplicable': 'Nicht anwendbar',
+  'cart.discountNotApplicableReason':
+    'Codes gelten nicht, wenn sie nicht existieren, abgelaufen sind oder dein Warenkorb ihre Bedingungen noch nicht erfüllt.',
+  'cart.discountError': 'Deine Rabattcodes konnten nicht aktualisiert werden.',
+  'cart.removeDiscount': 'Rabattcode {code} entfernen',
+  'cart.error': 'Dein Warenkorb konnte nicht aktualisiert werden.',
+  'cart.note': 'Bestellnotiz',
+  'cart.notePlaceholder': 'Besondere Hinweise zu deiner Bestellung',
+  'cart.giftOptions': 'Geschenkoptionen',
+  'cart.giftWrap': 'Als Geschenk verpacken',
+  'cart.giftMessage': 'Geschenknachricht',
+  'cart.pickupLocation': 'Abholung in {location}',
+  'cart.pickupLocationHint':
+    'Wähle an der Kasse die Abholung, um deine Bestellung in diesem Geschäft abzuholen.',
+  'cart.freeGift': 'Gratis-Geschenk',
+  'cart.goals': 'Warenkorb-Vorteile',
+  'cart.goals.freeShipping.remaining':
+    'Noch {amount} bis zum kostenlosen Versand',
+  'cart.goals.freeShipping.reached': 'Du erhältst kostenlosen Versand',
+  'cart.goals.freeGift.remaining':
+    'Noch {amount} bis zu deinem Gratis-Geschenk',
+  'cart.goals.freeGift.reached': 'Du erhältst ein Gratis-Geschenk',
+  'cart.goals.discount.remaining': 'Noch {amount}, dann erhältst du {reward}',
+  'cart.goals.discount.reached': 'Du erhältst {reward}',
+  'cart.goals.discount.reward': 'einen Rabatt',
+
+  // shared cart
+  'sharedCart.title': 'Geteilter Warenkorb',
+  'sharedCart.description':
+    'Jemand hat diesen Warenkorb mit dir geteilt. Lege die Artikel bis zum {date} in deinen eigenen Warenkorb.',
+  'sharedCart.addToCart': 'In meinen Warenkorb legen',
+  'sharedCart.unavailable': 'Nicht mehr verfügbar',
+  'sharedCart.unavailableNotice': {
+    one: '{count} Artikel ist nicht mehr verfügbar und wird nicht hinzugefügt.',
+    other: '{count} Artikel sind nicht mehr verfügbar und werden nicht hinzugefügt.',
+  },
+  'sharedCart.deletedItem': 'Gelöschtes Produkt',
+
+  // filters
+  'filters.title': 'Filtern',
+  'filters.applied': 'Aktive Filter',
+  'filters.removeFilter': 'Filter {label} entfernen',
+  'filters.sortBy': 'Sortieren nach',
+  'filters.sort.featured': 'Empfohlen',
+  'filters.sort.priceLowHigh': 'Preis: aufsteigend',
+  'filters.sort.priceHighLow': 'Preis: absteigend',
+  'filters.sort.bestSelling': 'Bestseller',
+  'filters.sort.newest': 'Neueste',
+  'filters.priceFrom': 'von',
+  'filters.priceTo': 'bis',
+
+  // search
+  'search.placeholder': 'Suchen…',
+  'search.submit': 'Suchen',
+  'search.products': 'Produkte',
+  'search.collections': 'Kollektionen',
+  'search.pages': 'Seiten',
+  'search.articles': 'Artikel',
+  'search.suggestions': 'Vorschläge',
+  'search.noResults': 'Keine Ergebnisse, versuche es mit einer anderen Suche.',
+  'search.noResultsFor': 'Keine Ergebnisse für „{term}“',
+  'search.viewAll': 'Alle Ergebnisse für „{term}“ anzeigen',
+
+  // auth
+  'auth.loginLink': 'Anmelden →',
+  'auth.registerLink': 'Registrieren →',
+  'auth.forgotPasswordLink': 'Passwort vergessen →',
+  'auth.login.title': 'Anmelden.',
+  'auth.login.description':
+    'Melde dich an, um deine Bestellungen zu sehen und deine Kontodaten zu ändern.',
+  'auth.login.failed': 'Anmeldung fehlgeschlagen',
+  'auth.login.submit': 'Anmelden',
+  'auth.register.title': 'Registrieren.',
+  'auth.register.description':
+    'Erstelle ein Konto, um deine Bestellungen zu sehen und deine Kontodaten zu ändern.',
+  'auth.register.failed': 'Registrierung fehlgeschlagen',
+  'auth.register.submit': 'Registrieren',
+  'auth.recover.title': 'Passwort vergessen.',
+  'auth.recover.description':
+    'Gib die E-Mail-Adresse deines Kontos ein, um einen Link zum Zurücksetzen deines Passworts zu erhalten.',
+  'auth.recover.sentTitle': 'Anfrage gesendet',
+  'auth.recover.sentDescription':
+    'Wenn diese E-Mail-Adresse bei uns registriert ist, erhältst du in wenigen Minuten eine E-Mail mit einer Anleitung zum Zurücksetzen deines Passworts.',
+  'auth.recover.backToLogin': 'Zurück zur Anmeldung',
+  'auth.recover.submit': 'Link anfordern',
+  'auth.reset.title': 'Passwort zurücksetzen.',
+  'auth.reset.description': 'Gib ein neues Passwort für dein Konto ein.',
+  'auth.reset.submit': 'Zurücksetzen',
+  'auth.activate.title': 'Konto aktivieren.',
+  'auth.activate.description':
+    'Lege ein Passwort fest, um dein Konto zu aktivieren.',
+  'auth.error.missingCredentials':
+    'Bitte gib eine E-Mail-Adresse und ein Passwort ein.',
+  'auth.error.missingEmail': 'Bitte gib eine E-Mail-Adresse ein.',
+  'auth.error.passwordsMismatch': 'Die Passwörter stimmen nicht überein',
+  'auth.error.missingToken':
+    'Token fehlt. Der Link, dem du gefolgt bist, ist möglicherweise falsch.',
+
+  // account
+  'account.welcome': 'Willkommen in deinem Konto.',
+  'account.welcomeName': 'Willkommen, {name}',
+  'account.details': 'Kontodaten',
+  'account.menu': 'Kontomenü',
+  'account.orders': 'Bestellungen',
+  'account.profile': 'Profil',
+  'account.addresses': 'Adressen',
+  'account.signOut': 'Abmelden',
+  'account.profile.title': 'Mein Profil',
+  'account.profile.personal': 'Persönliche Daten',
+  'account.profile.firstName': 'Vorname',
+  'account.profile.lastName': 'Nachname',
+  'account.profile.mobile': 'Mobilnummer',
+  'account.profile.acceptsMarketing': 'Marketing-E-Mails abonniert',
+  'account.profile.changePassword': 'Passwort ändern (optional)',
+  'account.profile.currentPassword': 'Aktuelles Passwort',
+  'account.profile.newPassword': 'Neues Passwort',
+  'account.profile.newPasswordConfirm': 'Neues Passwort (bestätigen)',
+  'account.profile.passwordHint':
+    'Passwörter müssen mindestens 8 Zeichen lang sein.',
+  'account.profile.updateFailed': 'Konto konnte nicht aktualisiert werden',
+  'account.profile.update': 'Aktualisieren',
+  'account.profile.updating': 'Wird aktualisiert',
+  'account.profile.error.currentPasswordRequired':
+    'Das aktuelle Passwort ist erforderlich.',
+  'account.profile.error.newPasswordsMismatch':
+    'Die neuen Passwörter müssen übereinstimmen.',
+  'account.profile.error.newPasswordUnchanged':
+    'Das neue Passwort muss sich vom aktuellen unterscheiden.',
+  'account.addresses.empty': 'Du hast keine gespeicherten Adressen.',
+  'account.addresses.create': 'Adresse hinzufügen',
+  'account.addresses.createSubmit': 'Hinzufügen',
+  'account.addresses.creating': 'Wird hinzugefügt',
+  'account.addresses.existing': 'Gespeicherte Adressen',
+  'account.addresses.edit': 'Bearbeiten',
+  'account.addresses.editTitle': 'Adresse bearbeiten',
+  'account.addresses.delete': 'Löschen',
+  'account.addresses.deleting': 'Wird gelöscht',
+  'account.addresses.company': 'Firma',
+  'account.addresses.address1': 'Adresszeile 1',
+  'account.addresses.address2': 'Adresszeile 2',
+  'account.addresses.city': 'Stadt',
+  'account.addresses.province': 'Bundesland / Region',
+  'account.addresses.zip': 'Postleitzahl',
+  'account.addresses.country': 'Land',
+  'account.addresses.phone': 'Telefon',
+  'account.addresses.setDefault': 'Als Standardadresse festlegen',
+  'account.orders.empty': 'Du hast noch keine Bestellungen aufgegeben.',
+  'account.orders.startShopping': 'Jetzt einkaufen →',
+  'account.orders.view': 'Bestellung ansehen',
+  'account.order.back': '← Zurück zu den Bestellungen',
+  'account.order.title': 'Bestellung {name}',
+  'account.order.placedOn': 'Aufgegeben am {date}',
+  'account.order.product': 'Produkt',
+  'account.order.price': 'Preis',
+  'account.order.quantity': 'Menge',
+  'account.order.total': 'Gesamt',
+  'account.order.discounts': 'Rabatte',
+  'account.order.subtotal': 'Zwischensumme',
+  'account.order.tax': 'Steuern',
+  'account.order.percentOff': '-{percent} %',
+  'account.order.shippingAddress': 'Lieferadresse',
+  'account.order.noShippingAddress': 'Keine Lieferadresse angegeben',
+  'account.order.status': 'Bestellstatus',
+  'account.order.viewStatus': 'Bestellstatus ansehen →',
+  'account.order.details': 'Weitere Angaben',
+};
+
+export default de;
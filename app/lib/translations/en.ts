@@ -0,0 +1,281 @@
+import type {Message} from './index';
+
+const en = {
+  // common
+  'common.emailAddress': 'Email address',
+  'common.password': 'Password',
+  'common.passwordConfirm': 'Re-enter password',
+  'common.loading': 'Loading…',
+  'common.loadPrevious': 'Load previous',
+  'common.loadMore': 'Load more',
+  'common.error': 'Error',
+  'common.home': 'Home',
+  'common.errorOccurred': 'An error occurred',
+  'common.save': 'Save',
+  'common.saving': 'Saving',
+  'common.methodNotAllowed': 'Method not allowed',
+
+  // header
+  'header.account': 'Account',
+  'header.search': 'Search',
+  'header.menu': 'Menu',
+  'header.cartLabel': {one: 'Cart, {count} item', other: 'Cart, {count} items'},
+
+  // footer
+  'footer.changeCountry': 'Change country',
+  'footer.countryRegion': 'Country/region',
+
+  // product
+  'product.addToCart': 'Add to cart',
+  'product.quickAdd': 'Quick add',
+  'product.subscribe': 'Subscribe',
+  'product.soldOut': 'Sold out',
+  'product.sale': 'Sale',
+  'product.unavailable': 'unavailable',
+  'product.price': 'Price',
+  'product.quantity': 'Quantity',
+  'product.optionQuantity': '{value} quantity',
+  'product.quantityMinimum': 'Minimum of {count}',
+  'product.quantityIncrement': 'Sold in multiples of {count}',
+  'product.quantityMaximum': 'Only {count} available',
+  'product.decreaseQuantity': 'Decrease {label}',
+  'product.increaseQuantity': 'Increase {label}',
+  'product.purchaseOptions': 'Purchase options',
+  'product.oneTimePurchase': 'One-time purchase',
+  'product.savePercentage': 'Save {percentage}%',
+  'product.saveAmount': 'Save {amount}',
+  'product.orderMultiple': 'Order multiple {option} options',
+  'product.orderSingle': 'Order a single {option}',
+  'product.addCountToCart': 'Add {count} to cart',
+  'product.selectQuantities': 'Select quantities',
+  'product.variantsError': 'There was a problem loading product variants',
+  'product.completeTheLook': 'Complete the look',
+  'product.youMayAlsoLike': 'You may also like',
+  'product.carousel.scrollLeft': 'Scroll left',
+  'product.carousel.scrollRight': 'Scroll right',
+  'product.gallery.label': 'Product media',
+  'product.gallery.slide': '{number} of {total}',
+  'product.gallery.previous': 'Previous media',
+  'product.gallery.next': 'Next media',
+  'product.gallery.show': 'Show media {number}',
+  'product.gallery.zoom': 'Zoom image',
+  'product.gallery.zoomIn': 'Zoom in',
+  'product.gallery.zoomOut': 'Zoom out',
+  'product.gallery.image': 'Product image',
+  'product.gallery.model': 'Product 3D model',
+  'product.pickup.title': 'Pickup availability',
+  'product.pickup.description': 'Stock and pickup times at each store.',
+  'product.pickup.available': 'Pickup available at {location}',
+  'product.pickup.unavailable': 'Pickup currently unavailable at {location}',
+  'product.pickup.viewAll': 'Check availability at all stores',
+  'product.pickup.select': 'Pick up here',
+  'product.pickup.selected': 'Your pickup store',
+  'product.personalizationHint': 'Up to {count} characters',
+
+  // cart
+  'cart.title': 'Cart',
+  'cart.loading': 'Loading cart…',
+  'cart.quantity': 'Quantity: {quantity}',
+  'cart.perDelivery': 'per delivery',
+  'cart.checkout': 'Continue to Checkout',
+  'cart.totals': 'Totals',
+  'cart.subtotal': 'Subtotal',
+  'cart.youSave': 'You save {amount}',
+  'cart.estimatedTax': 'Estimated taxes',
+  'cart.duties': 'Duties',
+  'cart.total': 'Total',
+  'cart.calculatedAtCheckout': 'Calculated at checkout',
+  'cart.shipping.title': 'Estimate shipping',
+  'cart.shipping.province': 'State/province',
+  'cart.shipping.zip': 'ZIP/postal code',
+  'cart.shipping.submit': 'Estimate',
+  'cart.shipping.shipment': 'Shipment {number}',
+  'cart.shipping.free': 'Free',
+  'cart.shipping.unavailable':
+    'Shipping rates can’t be estimated for this address. They’ll be calculated at checkout.',
+  'cart.remove': 'Remove',
+  'cart.selectAll': 'Select all',
+  'cart.selectLine': 'Select {title}',
+  'cart.removeSelected': 'Remove selected ({count})',
+  'cart.updating': 'Updating',
+  'cart.saveForLater': 'Save for later',
+  'cart.savedForLater': 'Saved for later',
+  'cart.moveToCart': 'Move to cart',
+  'cart.recommendations': 'Goes well with your cart',
+  'cart.share': 'Share cart',
+  'cart.shareLink': 'Link to this cart',
+  'cart.copyLink': 'Copy link',
+  'cart.linkCopied': 'Link copied',
+  'cart.empty':
+    'Looks like you haven’t added anything yet, let’s get you started!',
+  'cart.continueShopping': 'Continue shopping',
+  'cart.discounts': 'Discount(s)',
+  'cart.discountCode': 'Discount code',
+  'cart.applyDiscount': 'Apply discount',
+  'cart.discount': 'Discount',
+  'cart.discountApplied': 'Discount code {code} applied',
+  'cart.discountRemoved': 'Discount code {code} removed',
+  'cart.discountNotApplied': 'Discount code {code} can’t be applied',
+  'cart.discountNotApplicable': 'Not applicable',
+  'cart.discountNotApplicableReason':
+    'Codes don’t apply when they don’t exist, have expired, or your cart doesn’t meet their requirements yet.',
+  'cart.discountError': 'Your discount codes could not be updated.',
+  'cart.removeDiscount': 'Remove discount code {code}',
+  'cart.error': 'Your cart could not be updated.',
+  'cart.note': 'Order note',
+  'cart.notePlaceholder': 'Special instructions for your order',
+  'cart.giftOptions': 'Gift options',
+  'cart.giftWrap': 'Gift wrap this order',
+  'cart.giftMessage': 'Gift message',
+  'cart.pickupLocation': 'Pickup at {location}',
+  'cart.pickupLocationHint':
+    'Choose pickup at checkout to collect your order from this store.',
+  'cart.freeGift': 'Free gift',
+  'cart.goals': 'Cart rewards',
+  'cart.goals.freeShipping.remaining': 'Spend {amount} more for free shipping',
+  'cart.goals.freeShipping.reached': 'You’ve unlocked free shipping',
+  'cart.goals.freeGift.remaining': 'Spend {amount} more to get a free gift',
+  'cart.goals.freeGift.reached': 'You’ve unlocked a free gift',
+  'cart.goals.discount.remaining': 'Spend {amount} more to get {reward}',
+  'cart.goals.discount.reached': 'You’ve unlocked {reward}',
+  'cart.goals.discount.reward': 'a discount',
+
+  // shared cart
+  'sharedCart.title': 'Shared cart',
+  'sharedCart.description':
+    'Someone shared this cart with you. Add its items to your own cart before {date}.',
+  'sharedCart.addToCart': 'Add to my cart',
+  'sharedCart.unavailable': 'No longer available',
+  'sharedCart.unavailableNotice': {
+    one: '{count} item is no longer available and won’t be added.',
+    other: '{count} items are no longer available and won’t be added.',
+  },
+  'sharedCart.deletedItem': 'Deleted product',
+
+  // filters
+  'filters.title': 'Filter',
+  'filters.applied': 'Applied Filters',
+  'filters.removeFilter': 'Remove filter {label}',
+  'filters.sortBy': 'Sort By',
+  'filters.sort.featured': 'Featured',
+  'filters.sort.priceLowHigh': 'Price: Low - High',
+  'filters.sort.priceHighLow': 'Price: High - Low',
+  'filters.sort.bestSelling': 'Best Selling',
+  'filters.sort.newest': 'Newest',
+  'filters.priceFrom': 'from',
+  'filters.priceTo': 'to',
+
+  // search
+  'search.placeholder': 'Search…',
+  'search.submit': 'Search',
+  'search.products': 'Products',
+  'search.collections': 'Collections',
+  'search.pages': 'Pages',
+  'search.articles': 'Articles',
+  'search.suggestions': 'Suggestions',
+  'search.noResults': 'No results, try a different search.',
+  'search.noResultsFor': 'No results found for “{term}”',
+  'search.viewAll': 'View all results for “{term}”',
+
+  // auth
+  'auth.loginLink': 'Login →',
+  'auth.registerLink': 'Register →',
+  'auth.forgotPasswordLink': 'Forgot password →',
+  'auth.login.title': 'Sign in.',
+  'auth.login.description':
+    'Sign in to your account to access your order history and update your account details.',
+  'auth.login.failed': 'Sign in failed',
+  'auth.login.submit': 'Sign in',
+  'auth.register.title': 'Register.',
+  'auth.register.description':
+    'Register for an account to access your order history and update your account details.',
+  'auth.register.failed': 'Registration Error',
+  'auth.register.submit': 'Register',
+  'auth.recover.title': 'Forgot Password.',
+  'auth.recover.description':
+    'Enter the email address associated with your account to receive a link to reset your password.',
+  'auth.recover.sentTitle': 'Request Sent',
+  'auth.recover.sentDescription':
+    'If that email address is in our system, you will receive an email with instructions about how to reset your password in a few minutes.',
+  'auth.recover.backToLogin': 'Return to Login',
+  'auth.recover.submit': 'Request Reset Link',
+  'auth.reset.title': 'Reset Password.',
+  'auth.reset.description': 'Enter a new password for your account.',
+  'auth.reset.submit': 'Reset',
+  'auth.activate.title': 'Activate Account.',
+  'auth.activate.description': 'Create your password to activate your account.',
+  'auth.error.missingCredentials':
+    'Please provide both an email and a password.',
+  'auth.error.missingEmail': 'Please provide an email.',
+  'auth.error.passwordsMismatch': 'Passwords do not match',
+  'auth.error.missingToken':
+    'Missing token. The link you followed might be wrong.',
+
+  // account
+  'account.welcome': 'Welcome to your account.',
+  'account.welcomeName': 'Welcome, {name}',
+  'account.details': 'Account Details',
+  'account.menu': 'Account Menu',
+  'account.orders': 'Orders',
+  'account.profile': 'Profile',
+  'account.addresses': 'Addresses',
+  'account.signOut': 'Sign Out',
+  'account.profile.title': 'My profile',
+  'account.profile.personal': 'Personal Information',
+  'account.profile.firstName': 'First name',
+  'account.profile.lastName': 'Last name',
+  'account.profile.mobile': 'Mobile',
+  'account.profile.acceptsMarketing': 'Subscribed to marketing communications',
+  'account.profile.changePassword': 'Change password (optional)',
+  'account.profile.currentPassword': 'Current password',
+  'account.profile.newPassword': 'New password',
+  'account.profile.newPasswordConfirm': 'New password (confirm)',
+  'account.profile.passwordHint': 'Passwords must be at least 8 characters.',
+  'account.profile.updateFailed': 'Couldn’t update account',
+  'account.profile.update': 'Update',
+  'account.profile.updating': 'Updating',
+  'account.profile.error.currentPasswordRequired':
+    'Current password is required.',
+  'account.profile.error.newPasswordsMismatch': 'New passwords must match.',
+  'account.profile.error.newPasswordUnchanged':
+    'New password must be different than current password.',
+  'account.addresses.empty': 'You have no addresses saved.',
+  'account.addresses.create': 'Create Address',
+  'account.addresses.createSubmit': 'Create',
+  'account.addresses.creating': 'Creating',
+  'account.addresses.existing': 'Existing addresses',
+  'account.addresses.edit': 'Edit',
+  'account.addresses.editTitle': 'Edit Address',
+  'account.addresses.delete': 'Delete',
+  'account.addresses.deleting': 'Deleting',
+  'account.addresses.company': 'Company',
+  'account.addresses.address1': 'Address line 1',
+  'account.addresses.address2': 'Address line 2',
+  'account.addresses.city': 'City',
+  'account.addresses.province': 'State / Province',
+  'account.addresses.zip': 'Zip / Postal Code',
+  'account.addresses.country': 'Country',
+  'account.addresses.phone': 'Phone',
+  'account.addresses.setDefault': 'Set as default address',
+  'account.orders.empty': 'You haven’t placed any orders yet.',
+  'account.orders.startShopping': 'Start Shopping →',
+  'account.orders.view': 'View Order',
+  'account.order.back': '← Back to Orders',
+  'account.order.title': 'Order {name}',
+  'account.order.placedOn': 'Placed on {date}',
+  'account.order.product': 'Product',
+  'account.order.price': 'Price',
+  'account.order.quantity': 'Quantity',
+  'account.order.total': 'Total',
+  'account.order.discounts': 'Discounts',
+  'account.order.subtotal': 'Subtotal',
+  'account.order.tax': 'Tax',
+  'account.order.percentOff': '-{percent}% OFF',
+  'account.order.shippingAddress': 'Shipping Address',
+  'account.order.noShippingAddress': 'No shipping address defined',
+  'account.order.status': 'Order Status',
+  'account.order.viewStatus': 'View Order Status →',
+  'account.order.details': 'Additional details',
+} satisfies Record<string, Message>;
+
+export default en;
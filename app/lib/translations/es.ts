@@ -0,0 +1,290 @@
+import type {Catalog} from './index';
+
+const es: Catalog = {
+  // common
+  'common.emailAddress': 'Correo electrónico',
+  'common.password': 'Contraseña',
+  'common.passwordConfirm': 'Repite la contraseña',
+  'common.loading': 'Cargando…',
+  'common.loadPrevious': 'Cargar anteriores',
+  'common.loadMore': 'Cargar más',
+  'common.error': 'Error',
+  'common.home': 'Inicio',
+  'common.errorOccurred': 'Se ha producido un error',
+  'common.save': 'Guardar',
+  'common.saving': 'Guardando',
+  'common.methodNotAllowed': 'Método no permitido',
+
+  // header
+  'header.account': 'Cuenta',
+  'header.search': 'Buscar',
+  'header.menu': 'Menú',
+  'header.cartLabel': {
+    one: 'Carrito, {count} artículo',
+    other: 'Carrito, {count} artículos',
+  },
+
+  // footer
+  'footer.changeCountry': 'Cambiar país',
+  'footer.countryRegion': 'País/región',
+
+  // product
+  'product.addToCart': 'Añadir al carrito',
+  'product.quickAdd': 'Añadir rápido',
+  'product.subscribe': 'Suscribirse',
+  'product.soldOut': 'Agotado',
+  'product.sale': 'Oferta',
+  'product.unavailable': 'no disponible',
+  'product.price': 'Precio',
+  'product.quantity': 'Cantidad',
+  'product.optionQuantity': 'Cantidad de {value}',
+  'product.quantityMinimum': 'Mínimo de {count}',
+  'product.quantityIncrement': 'Se vende en múltiplos de {count}',
+  'product.quantityMaximum': 'Solo quedan {count}',
+  'product.decreaseQuantity': 'Reducir {label}',
+  'product.increaseQuantity': 'Aumentar {label}',
+  'product.purchaseOptions': 'Opciones de compra',
+  'product.oneTimePurchase': 'Compra única',
+  'product.savePercentage': 'Ahorra un {percentage} %',
+  'product.saveAmount': 'Ahorra {amount}',
+  'product.orderMultiple': 'Pedir varias opciones de {option}',
+  'product.orderSingle': 'Pedir una sola opción de {option}',
+  'product.addCountToCart': 'Añadir {count} al carrito',
+  'product.selectQuantities': 'Selecciona las cantidades',
+  'product.variantsError': 'No se pudieron cargar las variantes del producto',
+  'product.completeTheLook': 'Completa el look',
+  'product.youMayAlsoLike': 'También te puede gustar',
+  'product.carousel.scrollLeft': 'Desplazar a la izquierda',
+  'product.carousel.scrollRight': 'Desplazar a la derecha',
+  'product.gallery.label': 'Contenido multimedia del producto',
+  'product.gallery.slide': '{number} de {total}',
+  'product.gallery.previous': 'Elemento anterior',
+  'product.gallery.next': 'Elemento siguiente',
+  'product.gallery.show': 'Mostrar elemento {number}',
+  'product.gallery.zoom': 'Ampliar imagen',
+  'product.gallery.zoomIn': 'Acercar',
+  'product.gallery.zoomOut': 'Alejar',
+  'product.gallery.image': 'Imagen del producto',
+  'product.gallery.model': 'Modelo 3D del producto',
+  'product.pickup.title': 'Disponibilidad para recoger',
+  'product.pickup.description':
+    'Existencias y plazos de recogida en cada tienda.',
+  'product.pickup.available': 'Recogida disponible en {location}',
+  'product.pickup.unavailable':
+    'Recogida no disponible por ahora en {location}',
+  'product.pickup.viewAll': 'Ver disponibilidad en todas las tiendas',
+  'product.pickup.select': 'Recoger aquí',
+  'product.pickup.selected': 'Tu tienda de recogida',
+  'product.personalizationHint': 'Hasta {count} caracteres',
+
+  // cart
+  'cart.title': 'Carrito',
+  'cart.loading': 'Cargando carrito…',
+  'cart.quantity': 'Cantidad: {quantity}',
+  'cart.perDelivery': 'por entrega',
+  'cart.checkout': 'Continuar con el pago',
+  'cart.totals': 'Totales',
+  'cart.subtotal': 'Subtotal',
+  'cart.youSave': 'Ahorras {amount}',
+  'cart.estimatedTax': 'Impuestos estimados',
+  'cart.duties': 'Aranceles',
+  'cart.total': 'Total',
+  'cart.calculatedAtCheckout': 'Se calcula al pagar',
+  'cart.shipping.title': 'Estimar el envío',
+  'cart.shipping.province': 'Estado/provincia',
+  'cart.shipping.zip': 'Código postal',
+  'cart.shipping.submit': 'Estimar',
+  'cart.shipping.shipment': 'Envío {number}',
+  'cart.shipping.free': 'Gratis',
+  'cart.shipping.unavailable':
+    'No se pueden estimar las tarifas de envío para esta dirección. Se calcularán al pagar.',
+  'cart.remove': 'Eliminar',
+  'cart.selectAll': 'Seleccionar todo',
+  'cart.selectLine': 'Seleccionar {title}',
+  'cart.removeSelected': 'Eliminar seleccionados ({count})',
+  'cart.updating': 'Actualizando',
+  'cart.saveForLater': 'Guardar para más tarde',
+  'cart.savedForLater': 'Guardado para más tarde',
+  'cart.moveToCart': 'Mover al carrito',
+  'cart.recommendations': 'Combina con tu carrito',
+  'cart.share': 'Compartir carrito',
+  'cart.shareLink': 'Enlace a este carrito',
+  'cart.copyLink': 'Copiar enlace',
+  'cart.linkCopied': 'Enlace copiado',
+  'cart.empty': 'Parece que aún no has añadido nada, ¡empecemos!',
+  'cart.continueShopping': 'Seguir comprando',
+  'cart.discounts': 'Descuento(s)',
+  'cart.discountCode': 'Código de descuento',
+  'cart.applyDiscount': 'Aplicar descuento',
+  'cart.discount': 'Descuento',
+  'cart.discountApplied': 'Código de descuento {code} aplicado',
+  'cart.discountRemoved': 'Código de descuento {code} eliminado',
+  'cart.discountNotApplied':
+    'No se puede aplicar el código de descuento {code}',
+  'cart.discountNotApplicable': 'No aplicable',
+  'cart.discountNotApplicableReason':
+    'Los códigos no se aplican si no existen, han caducado o tu carrito aún no cumple sus requisitos.',
+  'cart.discountError': 'No se pudieron actualizar tus códigos de descuento.',
+  'cart.removeDiscount': 'Eliminar el código de descuento {code}',
+  'cart.error': 'No se pudo actualizar el carrito.',
+  'cart.note': 'Nota del pedido',
+  'cart.notePlaceholder': 'Instrucciones especiales para tu pedido',
+  'cart.giftOptions': 'Opciones de regalo',
+  'cart.giftWrap': 'Envolver para regalo',
+  'cart.giftMessage': 'Mensaje de regalo',
+  'cart.pickupLocation': 'Recogida en {location}',
+  'cart.pickupLocationHint':
+    'Elige la recogida al pagar para recoger tu pedido en esta tienda.',
+  'cart.freeGift': 'Regalo',
+  'cart.goals': 'Recompensas del carrito',
+  'cart.goals.freeShipping.remaining':
+    'Añade {amount} más para obtener envío gratis',
+  'cart.goals.freeShipping.reached': 'Has conseguido envío gratis',
+  'cart.goals.freeGift.remaining': 'Añade {amount} más para obtener un regalo',
+  'cart.goals.freeGift.reached': 'Has conseguido un regalo',
+  'cart.goals.discount.remaining': 'Añade {amount} más para obtener {reward}',
+  'cart.goals.discount.reached': 'Has conseguido {reward}',
+  'cart.goals.discount.reward': 'un descuento',
+
+  // shared cart
+  'sharedCart.title': 'Carrito compartido',
+  'sharedCart.description':
+    'Alguien compartió este carrito contigo. Añade sus artículos a tu carrito antes del {date}.',
+  'sharedCart.addToCart': 'Añadir a mi carrito',
+  'sharedCart.unavailable': 'Ya no está disponible',
+  'sharedCart.unavailableNotice': {
+    one: '{count} artículo ya no está disponible y no se añadirá.',
+    other: '{count} artículos ya no están disponibles y no se añadirán.',
+  },
+  'sharedCart.deletedItem': 'Producto eliminado',
+
+  // filters
+  'filters.title': 'Filtrar',
+  'filters.applied': 'Filtros aplicados',
+  'filters.removeFilter': 'Quitar filtro {label}',
+  'filters.sortBy': 'Ordenar por',
+  'filters.sort.featured': 'Destacados',
+  'filters.sort.priceLowHigh': 'Precio: de menor a mayor',
+  'filters.sort.priceHighLow': 'Precio: de mayor a menor',
+  'filters.sort.bestSelling': 'Más vendidos',
+  'filters.sort.newest': 'Novedades',
+  'filters.priceFrom': 'desde',
+  'filters.priceTo': 'hasta',
+
+  // search
+  'search.placeholder': 'Buscar…',
+  'search.submit': 'Buscar',
+  'search.products': 'Productos',
+  'search.collections': 'Colecciones',
+  'search.pages': 'Páginas',
+  'search.articles': 'Artículos',
+  'search.suggestions': 'Sugerencias',
+  'search.noResults': 'Sin resultados, prueba con otra búsqueda.',
+  'search.noResultsFor': 'No hay resultados para «{term}»',
+  'search.viewAll': 'Ver todos los resultados de «{term}»',
+
+  // auth
+  'auth.loginLink': 'Iniciar sesión →',
+  'auth.registerLink': 'Registrarse →',
+  'auth.forgotPasswordLink': '¿Olvidaste tu contraseña? →',
+  'auth.login.title': 'Inicia sesión.',
+  'auth.login.description':
+    'Inicia sesión en tu cuenta para ver tu historial de pedidos y actualizar los datos de tu cuenta.',
+  'auth.login.failed': 'No se pudo iniciar sesión',
+  'auth.login.submit': 'Iniciar sesión',
+  'auth.register.title': 'Regístrate.',
+  'auth.register.description':
+    'Crea una cuenta para ver tu historial de pedidos y actualizar los datos de tu cuenta.',
+  'auth.register.failed': 'Error en el registro',
+  'auth.register.submit': 'Registrarse',
+  'auth.recover.title': '¿Olvidaste tu contraseña?',
+  'auth.recover.description':
+    'Introduce el correo electrónico asociado a tu cuenta para recibir un enlace para restablecer tu contraseña.',
+  'auth.recover.sentTitle': 'Solicitud enviada',
+  'auth.recover.sentDescription':
+    'Si ese correo electrónico está registrado, en unos minutos recibirás un mensaje con instrucciones para restablecer tu contraseña.',
+  'auth.recover.backToLogin': 'Volver a iniciar sesión',
+  'auth.recover.submit': 'Solicitar enlace',
+  'auth.reset.title': 'Restablecer contraseña.',
+  'auth.reset.description': 'Introduce una nueva contraseña para tu cuenta.',
+  'auth.reset.submit': 'Restablecer',
+  'auth.activate.title': 'Activar cuenta.',
+  'auth.activate.description': 'Crea tu contraseña para activar tu cuenta.',
+  'auth.error.missingCredentials':
+    'Introduce un correo electrónico y una contraseña.',
+  'auth.error.missingEmail': 'Introduce un correo electrónico.',
+  'auth.error.passwordsMismatch': 'Las contraseñas no coinciden',
+  'auth.error.missingToken':
+    'Falta el token. Es posible que el enlace que has seguido sea incorrecto.',
+
+  // account
+  'account.welcome': 'Te damos la bienvenida a tu cuenta.',
+  'account.welcomeName': 'Hola, {name}',
+  'account.details': 'Datos de la cuenta',
+  'account.menu': 'Menú de la cuenta',
+  'account.orders': 'Pedidos',
+  'account.profile': 'Perfil',
+  'account.addresses': 'Direcciones',
+  'account.signOut': 'Cerrar sesión',
+  'account.profile.title': 'Mi perfil',
+  'account.profile.personal': 'Información personal',
+  'account.profile.firstName': 'Nombre',
+  'account.profile.lastName': 'Apellidos',
+  'account.profile.mobile': 'Móvil',
+  'account.profile.acceptsMarketing':
+    'Suscrito a las comunicaciones de marketing',
+  'account.profile.changePassword': 'Cambiar contraseña (opcional)',
+  'account.profile.currentPassword': 'Contraseña actual',
+  'account.profile.newPassword': 'Nueva contraseña',
+  'account.profile.newPasswordConfirm': 'Nueva contraseña (confirmación)',
+  'account.profile.passwordHint':
+    'Las contraseñas deben tener al menos 8 caracteres.',
+  'account.profile.updateFailed': 'No se pudo actualizar la cuenta',
+  'account.profile.update': 'Actualizar',
+  'account.profile.updating': 'Actualizando',
+  'account.profile.error.currentPasswordRequired':
+    'La contraseña actual es obligatoria.',
+  'account.profile.error.newPasswordsMismatch':
+    'Las nuevas contraseñas deben coincidir.',
+  'account.profile.error.newPasswordUnchanged':
+    'La nueva contraseña debe ser distinta de la actual.',
+  'account.addresses.empty': 'No tienes direcciones guardadas.',
+  'account.addresses.create': 'Crear dirección',
+  'account.addresses.createSubmit': 'Crear',
+  'account.addresses.creating': 'Creando',
+  'account.addresses.existing': 'Direcciones guardadas',
+  'account.addresses.edit': 'Editar',
+  'account.addresses.editTitle': 'Editar dirección',
+  'account.addresses.delete': 'Eliminar',
+  'account.addresses.deleting': 'Eliminando',
+  'account.addresses.company': 'Empresa',
+  'account.addresses.address1': 'Dirección, línea 1',
+  'account.addresses.address2': 'Dirección, línea 2',
+  'account.addresses.city': 'Ciudad',
+  'account.addresses.province': 'Provincia / Estado',
+  'account.addresses.zip': 'Código postal',
+  'account.addresses.country': 'País',
+  'account.addresses.phone': 'Teléfono',
+  'account.addresses.setDefault': 'Usar como dirección predeterminada',
+  'account.orders.empty': 'Todavía no has realizado ningún pedido.',
+  'account.orders.startShopping': 'Empezar a comprar →',
+  'account.orders.view': 'Ver pedido',
+  'account.order.back': '← Volver a los pedidos',
+  'account.order.title': 'Pedido {name}',
+  'account.order.placedOn': 'Realizado el {date}',
+  'account.order.product': 'Producto',
+  'account.order.price': 'Precio',
+  'account.order.quantity': 'Cantidad',
+  'account.order.total': 'Total',
+  'account.order.discounts': 'Descuentos',
+  'account.order.subtotal': 'Subtotal',
+  'account.order.tax': 'Impuestos',
+  'account.order.percentOff': '-{percent} % DTO.',
+  'account.order.shippingAddress': 'Dirección de envío',
+  'account.order.noShippingAddress': 'No hay dirección de envío',
+  'account.order.status': 'Estado del pedido',
+  'account.order.viewStatus': 'Ver estado del pedido →',
+  'account.order.details': 'Información adicional',
+};
+
+export default es;
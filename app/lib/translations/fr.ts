@@ -0,0 +1,292 @@
+import type {Catalog} from './index';
+
+const fr: Catalog = {
+  // common
+  'common.emailAddress': 'Adresse e-mail',
+  'common.password': 'Mot de passe',
+  'common.passwordConfirm': 'Confirmez le mot de passe',
+  'common.loading': 'Chargement…',
+  'common.loadPrevious': 'Charger les précédents',
+  'common.loadMore': 'Charger plus',
+  'common.error': 'Erreur',
+  'common.home': 'Accueil',
+  'common.errorOccurred': 'Une erreur s’est produite',
+  'common.save': 'Enregistrer',
+  'common.saving': 'Enregistrement',
+  'common.methodNotAllowed': 'Méthode non autorisée',
+
+  // header
+  'header.account': 'Compte',
+  'header.search': 'Rechercher',
+  'header.menu': 'Menu',
+  'header.cartLabel': {
+    one: 'Panier, {count} article',
+    other: 'Panier, {count} articles',
+  },
+
+  // footer
+  'footer.changeCountry': 'Changer de pays',
+  'footer.countryRegion': 'Pays/région',
+
+  // product
+  'product.addToCart': 'Ajouter au panier',
+  'product.quickAdd': 'Ajout rapide',
+  'product.subscribe': 'S’abonner',
+  'product.soldOut': 'Épuisé',
+  'product.sale': 'Promo',
+  'product.unavailable': 'indisponible',
+  'product.price': 'Prix',
+  'product.quantity': 'Quantité',
+  'product.optionQuantity': 'Quantité {value}',
+  'product.quantityMinimum': 'Minimum de {count}',
+  'product.quantityIncrement': 'Vendu par multiples de {count}',
+  'product.quantityMaximum': 'Plus que {count} disponibles',
+  'product.decreaseQuantity': 'Diminuer {label}',
+  'product.increaseQuantity': 'Augmenter {label}',
+  'product.purchaseOptions': 'Options d’achat',
+  'product.oneTimePurchase': 'Achat unique',
+  'product.savePercentage': 'Économisez {percentage} %',
+  'product.saveAmount': 'Économisez {amount}',
+  'product.orderMultiple': 'Commander plusieurs options de {option}',
+  'product.orderSingle': 'Commander une seule option de {option}',
+  'product.addCountToCart': 'Ajouter {count} au panier',
+  'product.selectQuantities': 'Choisissez les quantités',
+  'product.variantsError':
+    'Un problème est survenu lors du chargement des variantes',
+  'product.completeTheLook': 'Complétez le look',
+  'product.youMayAlsoLike': 'Vous aimerez aussi',
+  'product.carousel.scrollLeft': 'Défiler vers la gauche',
+  'product.carousel.scrollRight': 'Défiler vers la droite',
+  'product.gallery.label': 'Médias du produit',
+  'product.gallery.slide': '{number} sur {total}',
+  'product.gallery.previous': 'Média précédent',
+  'product.gallery.next': 'Média suivant',
+  'product.gallery.show': 'Afficher le média {number}',
+  'product.gallery.zoom': 'Agrandir l’image',
+  'product.gallery.zoomIn': 'Zoom avant',
+  'product.gallery.zoomOut': 'Zoom arrière',
+  'product.gallery.image': 'Image du produit',
+  'product.gallery.model': 'Modèle 3D du produit',
+  'product.pickup.title': 'Disponibilité du retrait',
+  'product.pickup.description':
+    'Stock et délais de retrait dans chaque magasin.',
+  'product.pickup.available': 'Retrait disponible à {location}',
+  'product.pickup.unavailable':
+    'Retrait actuellement indisponible à {location}',
+  'product.pickup.viewAll': 'Voir la disponibilité dans tous les magasins',
+  'product.pickup.select': 'Retirer ici',
+  'product.pickup.selected': 'Votre magasin de retrait',
+  'product.personalizationHint': '{count} caractères maximum',
+
+  // cart
+  'cart.title': 'Panier',
+  'cart.loading': 'Chargement du panier…',
+  'cart.quantity': 'Quantité : {quantity}',
+  'cart.perDelivery': 'par livraison',
+  'cart.checkout': 'Passer au paiement',
+  'cart.totals': 'Totaux',
+  'cart.subtotal': 'Sous-total',
+  'cart.youSave': 'Vous économisez {amount}',
+  'cart.estimatedTax': 'Taxes estimées',
+  'cart.duties': 'Droits de douane',
+  'cart.total': 'Total',
+  'cart.calculatedAtCheckout': 'Calculé lors du paiement',
+  'cart.shipping.title': 'Estimer la livraison',
+  'cart.shipping.province': 'État/province',
+  'cart.shipping.zip': 'Code postal',
+  'cart.shipping.submit': 'Estimer',
+  'cart.shipping.shipment': 'Envoi {number}',
+  'cart.shipping.free': 'Gratuit',
+  'cart.shipping.unavailable':
+    'Les frais de livraison ne peuvent pas être estimés pour cette adresse. Ils seront calculés lors du paiement.',
+  'cart.remove': 'Supprimer',
+  'cart.selectAll': 'Tout sélectionner',
+  'cart.selectLine': 'Sélectionner {title}',
+  'cart.removeSelected': 'Supprimer la sélection ({count})',
+  'cart.updating': 'Mise à jour',
+  'cart.saveForLater': 'Enregistrer pour plus tard',
+  'cart.savedForLater': 'Enregistré pour plus tard',
+  'cart.moveToCart': 'Déplacer dans le panier',
+  'cart.recommendations': 'Complétez votre panier',
+  'cart.share': 'Partager le panier',
+  'cart.shareLink': 'Lien vers ce panier',
+  'cart.copyLink': 'Copier le lien',
+  'cart.linkCopied': 'Lien copié',
+  'cart.empty': 'Vous n’avez encore rien ajouté, commençons !',
+  'cart.continueShopping': 'Continuer vos achats',
+  'cart.discounts': 'Réduction(s)',
+  'cart.discountCode': 'Code de réduction',
+  'cart.applyDiscount': 'Appliquer la réduction',
+  'cart.discount': 'Réduction',
+  'cart.discountApplied': 'Code de réduction {code} appliqué',
+  'cart.discountRemoved': 'Code de réduction {code} retiré',
+  'cart.discountNotApplied':
+    'Impossible d’appliquer le code de réduction {code}',
+  'cart.discountNotApplicable': 'Non applicable',
+  'cart.discountNotApplicableReason':
+    'Un code ne s’applique pas s’il n’existe pas, a expiré ou si votre panier ne remplit pas encore ses conditions.',
+  'cart.discountError': 'Impossible de mettre à jour vos codes de réduction.',
+  'cart.removeDiscount': 'Retirer le code de réduction {code}',
+  'cart.error': 'Impossible de mettre à jour votre panier.',
+  'cart.note': 'Note de commande',
+  'cart.notePlaceholder': 'Instructions particulières pour votre commande',
+  'cart.giftOptions': 'Options cadeau',
+  'cart.giftWrap': 'Emballer cette commande en cadeau',
+  'cart.giftMessage': 'Message cadeau',
+  'cart.pickupLocation': 'Retrait à {location}',
+  'cart.pickupLocationHint':
+    'Choisissez le retrait lors du paiement pour récupérer votre commande dans ce magasin.',
+  'cart.freeGift': 'Cadeau offert',
+  'cart.goals': 'Avantages du panier',
+  'cart.goals.freeShipping.remaining':
+    'Plus que {amount} pour la livraison gratuite',
+  'cart.goals.freeShipping.reached': 'Vous bénéficiez de la livraison gratuite',
+  'cart.goals.freeGift.remaining': 'Plus que {amount} pour recevoir un cadeau',
+  'cart.goals.freeGift.reached': 'Vous recevez un cadeau',
+  'cart.goals.discount.remaining': 'Plus que {amount} pour obtenir {reward}',
+  'cart.goals.discount.reached': 'Avantage débloqué : {reward}',
+  'cart.goals.discount.reward': 'une réduction',
+
+  // shared cart
+  'sharedCart.title': 'Panier partagé',
+  'sharedCart.description':
+    'Quelqu’un a partagé ce panier avec vous. Ajoutez ses articles à votre panier avant le {date}.',
+  'sharedCart.addToCart': 'Ajouter à mon panier',
+  'sharedCart.unavailable': 'Plus disponible',
+  'sharedCart.unavailableNotice': {
+    one: '{count} article n’est plus disponible et ne sera pas ajouté.',
+    other: '{count} articles ne sont plus disponibles et ne seront pas ajoutés.',
+  },
+  'sharedCart.deletedItem': 'Produit supprimé',
+
+  // filters
+  'filters.title': 'Filtrer',
+  'filters.applied': 'Filtres appliqués',
+  'filters.removeFilter': 'Retirer le filtre {label}',
+  'filters.sortBy': 'Trier par',
+  'filters.sort.featured': 'En vedette',
+  'filters.sort.priceLowHigh': 'Prix : croissant',
+  'filters.sort.priceHighLow': 'Prix : décroissant',
+  'filters.sort.bestSelling': 'Meilleures ventes',
+  'filters.sort.newest': 'Nouveautés',
+  'filters.priceFrom': 'de',
+  'filters.priceTo': 'à',
+
+  // search
+  'search.placeholder': 'Rechercher…',
+  'search.submit': 'Rechercher',
+  'search.products': 'Produits',
+  'search.collections': 'Collections',
+  'search.pages': 'Pages',
+  'search.articles': 'Articles',
+  'search.suggestions': 'Suggestions',
+  'search.noResults': 'Aucun résultat, essayez une autre recherche.',
+  'search.noResultsFor': 'Aucun résultat pour « {term} »',
+  'search.viewAll': 'Voir tous les résultats pour « {term} »',
+
+  // auth
+  'auth.loginLink': 'Connexion →',
+  'auth.registerLink': 'Créer un compte →',
+  'auth.forgotPasswordLink': 'Mot de passe oublié →',
+  'auth.login.title': 'Connexion.',
+  'auth.login.description':
+    'Connectez-vous à votre compte pour consulter vos commandes et modifier vos informations.',
+  'auth.login.failed': 'Échec de la connexion',
+  'auth.login.submit': 'Se connecter',
+  'auth.register.title': 'Créer un compte.',
+  'auth.register.description':
+    'Créez un compte pour consulter vos commandes et modifier vos informations.',
+  'auth.register.failed': 'Erreur lors de l’inscription',
+  'auth.register.submit': 'Créer un compte',
+  'auth.recover.title': 'Mot de passe oublié.',
+  'auth.recover.description':
+    'Saisissez l’adresse e-mail associée à votre compte pour recevoir un lien de réinitialisation.',
+  'auth.recover.sentTitle': 'Demande envoyée',
+  'auth.recover.sentDescription':
+    'Si cette adresse e-mail est enregistrée, vous recevrez d’ici quelques minutes un e-mail expliquant comment réinitialiser votre mot de passe.',
+  'auth.recover.backToLogin': 'Retour à la connexion',
+  'auth.recover.submit': 'Recevoir le lien',
+  'auth.reset.title': 'Réinitialiser le mot de passe.',
+  'auth.reset.description':
+    'Saisissez un nouveau mot de passe pour votre compte.',
+  'auth.reset.submit': 'Réinitialiser',
+  'auth.activate.title': 'Activer le compte.',
+  'auth.activate.description':
+    'Créez votre mot de passe pour activer votre compte.',
+  'auth.error.missingCredentials':
+    'Veuillez saisir une adresse e-mail et un mot de passe.',
+  'auth.error.missingEmail': 'Veuillez saisir une adresse e-mail.',
+  'auth.error.passwordsMismatch': 'Les mots de passe ne correspondent pas',
+  'auth.error.missingToken':
+    'Jeton manquant. Le lien que vous avez suivi est peut-être incorrect.',
+
+  // account
+  'account.welcome': 'Bienvenue dans votre compte.',
+  'account.welcomeName': 'Bienvenue, {name}',
+  'account.details': 'Informations du compte',
+  'account.menu': 'Menu du compte',
+  'account.orders': 'Commandes',
+  'account.profile': 'Profil',
+  'account.addresses': 'Adresses',
+  'account.signOut': 'Se déconnecter',
+  'account.profile.title': 'Mon profil',
+  'account.profile.personal': 'Informations personnelles',
+  'account.profile.firstName': 'Prénom',
+  'account.profile.lastName': 'Nom',
+  'account.profile.mobile': 'Mobile',
+  'account.profile.acceptsMarketing': 'Abonné aux communications marketing',
+  'account.profile.changePassword': 'Changer de mot de passe (facultatif)',
+  'account.profile.currentPassword': 'Mot de passe actuel',
+  'account.profile.newPassword': 'Nouveau mot de passe',
+  'account.profile.newPasswordConfirm': 'Nouveau mot de passe (confirmation)',
+  'account.profile.passwordHint':
+    'Les mots de passe doivent contenir au moins 8 caractères.',
+  'account.profile.updateFailed': 'Impossible de mettre à jour le compte',
+  'account.profile.update': 'Mettre à jour',
+  'account.profile.updating': 'Mise à jour',
+  'account.profile.error.currentPasswordRequired':
+    'Le mot de passe actuel est obligatoire.',
+  'account.profile.error.newPasswordsMismatch':
+    'Les nouveaux mots de passe doivent correspondre.',
+  'account.profile.error.newPasswordUnchanged':
+    'Le nouveau mot de passe doit être différent de l’actuel.',
+  'account.addresses.empty': 'Vous n’avez aucune adresse enregistrée.',
+  'account.addresses.create': 'Ajouter une adresse',
+  'account.addresses.createSubmit': 'Ajouter',
+  'account.addresses.creating': 'Ajout',
+  'account.addresses.existing': 'Adresses enregistrées',
+  'account.addresses.edit': 'Modifier',
+  'account.addresses.editTitle': 'Modifier l’adresse',
+  'account.addresses.delete': 'Supprimer',
+  'account.addresses.deleting': 'Suppression',
+  'account.addresses.company': 'Entreprise',
+  'account.addresses.address1': 'Adresse, ligne 1',
+  'account.addresses.address2': 'Adresse, ligne 2',
+  'account.addresses.city': 'Ville',
+  'account.addresses.province': 'Région / Province',
+  'account.addresses.zip': 'Code postal',
+  'account.addresses.country': 'Pays',
+  'account.addresses.phone': 'Téléphone',
+  'account.addresses.setDefault': 'Définir comme adresse par défaut',
+  'account.orders.empty': 'Vous n’avez encore passé aucune commande.',
+  'account.orders.startShopping': 'Commencer vos achats →',
+  'account.orders.view': 'Voir la commande',
+  'account.order.back': '← Retour aux commandes',
+  'account.order.title': 'Commande {name}',
+  'account.order.placedOn': 'Passée le {date}',
+  'account.order.product': 'Produit',
+  'account.order.price': 'Prix',
+  'account.order.quantity': 'Quantité',
+  'account.order.total': 'Total',
+  'account.order.discounts': 'Réductions',
+  'account.order.subtotal': 'Sous-total',
+  'account.order.tax': 'Taxes',
+  'account.order.percentOff': '-{percent} %',
+  'account.order.shippingAddress': 'Adresse de livraison',
+  'account.order.noShippingAddress': 'Aucune adresse de livraison',
+  'account.order.status': 'Statut de la commande',
+  'account.order.viewStatus': 'Voir le statut de la commande →',
+  'account.order.details': 'Informations complémentaires',
+};
+
+export default fr;
@@ -0,0 +1,61 @@
+import type en from './en';
+
+/**
+ * A message with one form per CLDR plural category, picked with the `count`
+ * value, e.g. `{one: '{count} item', other: '{count} items'}`
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string;
+};
+
+export type Message = string | PluralMessage;
+
+/**
+ * English is the source catalog, every other language translates its keys
+ */
+export type TranslationKey = keyof typeof en;
+
+export type Catalog = Record<TranslationKey, Message>;
+
+export type TranslationValues = Record<string, string | number>;
+
+export type Translate = (
+  key: TranslationKey,
+  values?: TranslationValues,
+) => string;
+
+/**
+ * Resolves a message and fills in its `{placeholder}` values
+ *
+ * @example
+ * ```ts
+ * translate(catalog, 'en', 'header.cartLabel', {count: 2}); // => 'Cart, 2 items'
+ * ```
+ */
+export function translate(
+  catalog: Partial<Catalog>,
+  language: string,
+  key: TranslationKey,
+  values: TranslationValues = {},
+) {
+  const message = catalog[key];
+  if (message === undefined) return key;
+
+  const template =
+    typeof message === 'string'
+      ? message
+      : selectPluralForm(message, language, Number(values.count ?? 0));
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder,
+  );
+}
+
+function selectPluralForm(
+  message: PluralMessage,
+  language: string,
+  count: number,
+) {
+  const category = new Intl.PluralRules(language.toLowerCase()).select(count);
+  return message[category] ?? message.other;
+}
@@ -0,0 +1,279 @@
+import type {Catalog} from './index';
+
+const ja: Catalog = {
+  // common
+  'common.emailAddress': 'メールアドレス',
+  'common.password': 'パスワード',
+  'common.passwordConfirm': 'パスワード（確認）',
+  'common.loading': '読み込み中…',
+  'common.loadPrevious': '前を読み込む',
+  'common.loadMore': 'さらに読み込む',
+  'common.error': 'エラー',
+  'common.home': 'ホーム',
+  'common.errorOccurred': 'エラーが発生しました',
+  'common.save': '保存',
+  'common.saving': '保存中',
+  'common.methodNotAllowed': '許可されていないメソッドです',
+
+  // header
+  'header.account': 'アカウント',
+  'header.search': '検索',
+  'header.menu': 'メニュー',
+  'header.cartLabel': {other: 'カート、{count}点'},
+
+  // footer
+  'footer.changeCountry': '国を変更',
+  'footer.countryRegion': '国/地域',
+
+  // product
+  'product.addToCart': 'カートに追加',
+  'product.quickAdd': 'すぐに追加',
+  'product.subscribe': '定期購入する',
+  'product.soldOut': '売り切れ',
+  'product.sale': 'セール',
+  'product.unavailable': '在庫なし',
+  'product.price': '価格',
+  'product.quantity': '数量',
+  'product.optionQuantity': '{value}の数量',
+  'product.quantityMinimum': '最低{count}点から',
+  'product.quantityIncrement': '{count}点単位で販売',
+  'product.quantityMaximum': '残り{count}点',
+  'product.decreaseQuantity': '{label}を減らす',
+  'product.increaseQuantity': '{label}を増やす',
+  'product.purchaseOptions': '購入オプション',
+  'product.oneTimePurchase': '通常購入',
+  'product.savePercentage': '{percentage}%オフ',
+  'product.saveAmount': '{amount}オフ',
+  'product.orderMultiple': '複数の{option}をまとめて注文',
+  'product.orderSingle': '{option}を1つだけ注文',
+  'product.addCountToCart': '{count}点をカートに追加',
+  'product.selectQuantities': '数量を選択してください',
+  'product.variantsError': '商品バリエーションの読み込み中に問題が発生しました',
+  'product.completeTheLook': 'コーディネートを完成させる',
+  'product.youMayAlsoLike': 'おすすめ商品',
+  'product.carousel.scrollLeft': '左にスクロール',
+  'product.carousel.scrollRight': '右にスクロール',
+  'product.gallery.label': '商品メディア',
+  'product.gallery.slide': '{number} / {total}',
+  'product.gallery.previous': '前のメディア',
+  'product.gallery.next': '次のメディア',
+  'product.gallery.show': 'メディア{number}を表示',
+  'product.gallery.zoom': '画像を拡大',
+  'product.gallery.zoomIn': '拡大',
+  'product.gallery.zoomOut': '縮小',
+  'product.gallery.image': '商品画像',
+  'product.gallery.model': '商品の3Dモデル',
+  'product.pickup.title': '店舗受け取りの可否',
+  'product.pickup.description': '各店舗の在庫と受け取りまでの目安です。',
+  'product.pickup.available': '{location}で受け取り可能',
+  'product.pickup.unavailable': '{location}では現在受け取りできません',
+  'product.pickup.viewAll': 'すべての店舗の在庫を確認',
+  'product.pickup.select': 'この店舗で受け取る',
+  'product.pickup.selected': '受け取り店舗',
+  'product.personalizationHint': '{count}文字まで',
+
+  // cart
+  'cart.title': 'カート',
+  'cart.loading': 'カートを読み込み中…',
+  'cart.quantity': '数量: {quantity}',
+  'cart.perDelivery': '1回のお届けごと',
+  'cart.checkout': 'ご購入手続きへ',
+  'cart.totals': '合計',
+  'cart.subtotal': '小計',
+  'cart.youSave': '{amount}お得',
+  'cart.estimatedTax': '税金（概算）',
+  'cart.duties': '関税',
+  'cart.total': '合計',
+  'cart.calculatedAtCheckout': 'ご購入手続き時に計算',
+  'cart.shipping.title': '送料を見積もる',
+  'cart.shipping.province': '都道府県',
+  'cart.shipping.zip': '郵便番号',
+  'cart.shipping.submit': '見積もる',
+  'cart.shipping.shipment': '配送 {number}',
+  'cart.shipping.free': '無料',
+  'cart.shipping.unavailable': 'この住所の送料は見積もれません。送料はチェックアウト時に計算されます。',
+  'cart.remove': '削除',
+  'cart.selectAll': 'すべて選択',
+  'cart.selectLine': '{title}を選択',
+  'cart.removeSelected': '選択した商品を削除 ({count})',
+  'cart.updating': '更新中',
+  'cart.saveForLater': '後で買う',
+  'cart.savedForLater': '後で買う商品',
+  'cart.moveToCart': 'カートに移動',
+  'cart.recommendations': 'カートの商品と一緒にいかがですか',
+  'cart.share': 'カートを共有',
+  'cart.shareLink': 'このカートへのリンク',
+  'cart.copyLink': 'リンクをコピー',
+  'cart.linkCopied': 'リンクをコピーしました',
+  'cart.empty': 'カートにはまだ何も入っていません。お買い物を始めましょう！',
+  'cart.continueShopping': 'お買い物を続ける',
+  'cart.discounts': '割引',
+  'cart.discountCode': '割引コード',
+  'cart.applyDiscount': '割引を適用',
+  'cart.discount': '割引',
+  'cart.discountApplied': '割引コード{code}を適用しました',
+  'cart.discountRemoved': '割引コード{code}を削除しました',
+  'cart.discountNotApplied': '割引コード{code}は適用できません',
+  'cart.discountNotApplicable': '適用対象外',
+  'cart.discountNotApplicableReason':
+    '存在しないコード、有効期限切れのコード、またはカートが条件を満たしていない場合は適用されません。',
+  'cart.discountError': '割引コードを更新できませんでした。',
+  'cart.removeDiscount': '割引コード{code}を削除',
+  'cart.error': 'カートを更新できませんでした。',
+  'cart.note': '注文メモ',
+  'cart.notePlaceholder': 'ご注文に関するご要望',
+  'cart.giftOptions': 'ギフトオプション',
+  'cart.giftWrap': 'ギフト包装にする',
+  'cart.giftMessage': 'ギフトメッセージ',
+  'cart.pickupLocation': '{location}で受け取り',
+  'cart.pickupLocationHint': 'この店舗で受け取るには、チェックアウト時に店舗受け取りを選択してください。',
+  'cart.freeGift': '無料ギフト',
+  'cart.goals': 'カート特典',
+  'cart.goals.freeShipping.remaining': 'あと{amount}で送料無料',
+  'cart.goals.freeShipping.reached': '送料無料になりました',
+  'cart.goals.freeGift.remaining': 'あと{amount}で無料ギフトがもらえます',
+  'cart.goals.freeGift.reached': '無料ギフトがもらえます',
+  'cart.goals.discount.remaining': 'あと{amount}で{reward}',
+  'cart.goals.discount.reached': '{reward}が適用されます',
+  'cart.goals.discount.reward': '割引',
+
+  // shared cart
+  'sharedCart.title': '共有されたカート',
+  'sharedCart.description': 'このカートが共有されました。{date}までに商品をご自分のカートに追加してください。',
+  'sharedCart.addToCart': '自分のカートに追加',
+  'sharedCart.unavailable': '現在取り扱いがありません',
+  'sharedCart.unavailableNotice': {
+    other: '{count}点の商品は取り扱いがなくなったため追加されません。',
+  },
+  'sharedCart.deletedItem': '削除された商品',
+
+  // filters
+  'filters.title': '絞り込み',
+  'filters.applied': '適用中のフィルター',
+  'filters.removeFilter': 'フィルター「{label}」を解除',
+  'filters.sortBy': '並び替え',
+  'filters.sort.featured': 'おすすめ順',
+  'filters.sort.priceLowHigh': '価格の安い順',
+  'filters.sort.priceHighLow': '価格の高い順',
+  'filters.sort.bestSelling': '売れ筋順',
+  'filters.sort.newest': '新着順',
+  'filters.priceFrom': '最低',
+  'filters.priceTo': '最高',
+
+  // search
+  'search.placeholder': '検索…',
+  'search.submit': '検索',
+  'search.products': '商品',
+  'search.collections': 'コレクション',
+  'search.pages': 'ページ',
+  'search.articles': '記事',
+  'search.suggestions': '検索候補',
+  'search.noResults':
+    '該当する結果がありません。別のキーワードをお試しください。',
+  'search.noResultsFor': '「{term}」に一致する結果はありません',
+  'search.viewAll': '「{term}」の検索結果をすべて表示',
+
+  // auth
+  'auth.loginLink': 'ログイン →',
+  'auth.registerLink': '新規登録 →',
+  'auth.forgotPasswordLink': 'パスワードをお忘れの方 →',
+  'auth.login.title': 'ログイン',
+  'auth.login.description':
+    'アカウントにログインして、注文履歴の確認やアカウント情報の更新を行えます。',
+  'auth.login.failed': 'ログインに失敗しました',
+  'auth.login.submit': 'ログイン',
+  'auth.register.title': '新規登録',
+  'auth.register.description':
+    'アカウントを作成すると、注文履歴の確認やアカウント情報の更新を行えます。',
+  'auth.register.failed': '登録エラー',
+  'auth.register.submit': '登録する',
+  'auth.recover.title': 'パスワードの再設定',
+  'auth.recover.description':
+    'アカウントに登録したメールアドレスを入力すると、パスワード再設定用のリンクをお送りします。',
+  'auth.recover.sentTitle': 'リクエストを送信しました',
+  'auth.recover.sentDescription':
+    'ご入力のメールアドレスが登録されている場合、数分以内にパスワード再設定の手順を記載したメールが届きます。',
+  'auth.recover.backToLogin': 'ログインに戻る',
+  'auth.recover.submit': '再設定リンクを送信',
+  'auth.reset.title': 'パスワードの再設定',
+  'auth.reset.description': 'アカウントの新しいパスワードを入力してください。',
+  'auth.reset.submit': '再設定する',
+  'auth.activate.title': 'アカウントの有効化',
+  'auth.activate.description':
+    'パスワードを設定してアカウントを有効にしてください。',
+  'auth.error.missingCredentials':
+    'メールアドレスとパスワードを入力してください。',
+  'auth.error.missingEmail': 'メールアドレスを入力してください。',
+  'auth.error.passwordsMismatch': 'パスワードが一致しません',
+  'auth.error.missingToken':
+    'トークンがありません。リンクが正しくない可能性があります。',
+
+  // account
+  'account.welcome': 'アカウントへようこそ。',
+  'account.welcomeName': 'ようこそ、{name}様',
+  'account.details': 'アカウント情報',
+  'account.menu': 'アカウントメニュー',
+  'account.orders': '注文履歴',
+  'account.profile': 'プロフィール',
+  'account.addresses': '住所',
+  'account.signOut': 'ログアウト',
+  'account.profile.title': 'マイプロフィール',
+  'account.profile.personal': '個人情報',
+  'account.profile.firstName': '名',
+  'account.profile.lastName': '姓',
+  'account.profile.mobile': '携帯電話番号',
+  'account.profile.acceptsMarketing': 'お知らせメールを受け取る',
+  'account.profile.changePassword': 'パスワードの変更（任意）',
+  'account.profile.currentPassword': '現在のパスワード',
+  'account.profile.newPassword': '新しいパスワード',
+  'account.profile.newPasswordConfirm': '新しいパスワード（確認）',
+  'account.profile.passwordHint': 'パスワードは8文字以上で入力してください。',
+  'account.profile.updateFailed': 'アカウントを更新できませんでした',
+  'account.profile.update': '更新する',
+  'account.profile.updating': '更新中',
+  'account.profile.error.currentPasswordRequired':
+    '現在のパスワードを入力してください。',
+  'account.profile.error.newPasswordsMismatch':
+    '新しいパスワードが一致しません。',
+  'account.profile.error.newPasswordUnchanged':
+    '新しいパスワードには現在と異なるものを指定してください。',
+  'account.addresses.empty': '保存されている住所はありません。',
+  'account.addresses.create': '住所を追加',
+  'account.addresses.createSubmit': '追加する',
+  'account.addresses.creating': '追加中',
+  'account.addresses.existing': '保存済みの住所',
+  'account.addresses.edit': '編集',
+  'account.addresses.editTitle': '住所を編集',
+  'account.addresses.delete': '削除',
+  'account.addresses.deleting': '削除中',
+  'account.addresses.company': '会社名',
+  'account.addresses.address1': '住所1',
+  'account.addresses.address2': '住所2',
+  'account.addresses.city': '市区町村',
+  'account.addresses.province': '都道府県',
+  'account.addresses.zip': '郵便番号',
+  'account.addresses.country': '国',
+  'account.addresses.phone': '電話番号',
+  'account.addresses.setDefault': 'デフォルトの住所に設定',
+  'account.orders.empty': 'まだ注文はありません。',
+  'account.orders.startShopping': 'お買い物を始める →',
+  'account.orders.view': '注文を見る',
+  'account.order.back': '← 注文履歴に戻る',
+  'account.order.title': '注文 {name}',
+  'account.order.placedOn': '注文日: {date}',
+  'account.order.product': '商品',
+  'account.order.price': '価格',
+  'account.order.quantity': '数量',
+  'account.order.total': '合計',
+  'account.order.discounts': '割引',
+  'account.order.subtotal': '小計',
+  'account.order.tax': '税',
+  'account.order.percentOff': '{percent}%オフ',
+  'account.order.shippingAddress': '配送先住所',
+  'account.order.noShippingAddress': '配送先住所が設定されていません',
+  'account.order.status': '注文ステータス',
+  'account.order.viewStatus': '注文ステータスを確認 →',
+  'account.order.details': '追加情報',
+};
+
+export default ja;
@@ -11,8 +11,8 @@ import {
   ScrollRestoration,
   isRouteErrorResponse,
   type ShouldRevalidateFunction,
-  Link,
 } from '@remix-run/react'
+import { Link } from '~/components/Link'
 import type { CustomerAccessToken } from '@shopify/hydrogen/storefront-api-types'
 import type { HydrogenSession } from '../server'
 import favicon from '../public/favicon.svg'
@@ -22,18 +22,31 @@ import tailwindCss from './styles/tailwind.css'
 import { ThemeProvider } from '~/components/ThemeContext'
 import { buttonVariants } from './components/ui/button'
 import { Icon } from '@iconify/react'
+import { StructuredData } from '~/components/StructuredData'
+import { organizationJsonLd, webSiteJsonLd } from '~/lib/structured-data'
+import { DEFAULT_LOCALE } from '~/lib/i18n'
+import { getCatalog } from '~/lib/translations/catalogs.server'
+import { getCartGoals } from '~/data/cart-goals'
+import { getSavedForLater } from '~/data/saved-for-later'
 
 // This is important to avoid re-fetching root queries on sub-navigations
 export const shouldRevalidate: ShouldRevalidateFunction = ({
   formMethod,
   currentUrl,
   nextUrl,
+  currentParams,
+  nextParams,
 }) => {
   // revalidate when a mutation is performed e.g add to cart, login...
   if (formMethod && formMethod !== 'GET') {
     return true
   }
 
+  // revalidate when switching locale, e.g from /products to /es-es/products
+  if (currentParams.locale !== nextParams.locale) {
+    return true
+  }
+
   // revalidate when manually revalidating via useRevalidator
   if (currentUrl.toString() === nextUrl.toString()) {
     return true
@@ -58,10 +71,11 @@ export function links() {
   ]
 }
 
-export async function loader({context}: LoaderArgs) {
+export async function loader({request, context}: LoaderArgs) {
   const {storefront, session, cart} = context
   const customerAccessToken = await session.get('customerAccessToken')
   const publicStoreDomain = context.env.PUBLIC_STORE_DOMAIN
+  const baseUrl = new URL(request.url).origin
 
   // validate the customer access token is valid
   const {isLoggedIn, headers} = await validateCustomerAccessToken(
@@ -91,10 +105,15 @@ export async function loader({context}: LoaderArgs) {
   return defer(
     {
       cart: cartPromise,
+      savedForLater: getSavedForLater(context),
+      cartGoals: getCartGoals(storefront),
       footer: footerPromise,
       header: await headerPromise,
       isLoggedIn,
       publicStoreDomain,
+      baseUrl,
+      selectedLocale: storefront.i18n,
+      translations: getCatalog(storefront.i18n.language),
     },
     {headers},
   )
@@ -102,14 +121,28 @@ export async function loader({context}: LoaderArgs) {
 
 export default function App() {
   const data = useLoaderData<typeof loader>()
+  const {shop} = data.header
 
   return (
-    <html lang="en">
+    <html lang={data.selectedLocale.language.toLowerCase()}>
       <head>
         <meta charSet="utf-8" />
         <meta name="viewport" content="width=device-width,initial-scale=1" />
         <Meta />
         <Links />
+        <StructuredData
+          data={[
+            organizationJsonLd({
+              shop: {
+                name: shop.name,
+                description: shop.description,
+                logoUrl: shop.brand?.logo?.image?.url,
+              },
+              baseUrl: data.baseUrl,
+            }),
+            webSiteJsonLd({shop, baseUrl: data.baseUrl}),
+          ]}
+        />
       </head>
       <body>
         <ThemeProvider>
@@ -128,6 +161,7 @@ export default function App() {
 export function ErrorBoundary() {
   const error = useRouteError()
   const [root] = useMatches()
+  const locale = root?.data?.selectedLocale ?? DEFAULT_LOCALE
   let errorMessage = 'Unknown error'
   let errorStatus = 500
 
@@ -139,7 +173,7 @@ export function ErrorBoundary() {
   }
 
   return (
-    <html lang="en">
+    <html lang={locale.language.toLowerCase()}>
       <head>
         <meta charSet="utf-8" />
         <meta name="viewport" content="width=device-width,initial-scale=1" />
@@ -264,6 +298,25 @@ const HEADER_QUERY = `#graphql
   ${MENU_FRAGMENT}
 ` as const
 
+const LOCALIZATION_FRAGMENT = `#graphql
+  fragment LocalizationCountry on Country {
+    isoCode
+    name
+    currency {
+      isoCode
+      symbol
+    }
+  }
+  fragment Localization on Localization {
+    country {
+      ...LocalizationCountry
+    }
+    availableCountries {
+      ...LocalizationCountry
+    }
+  }
+` as const
+
 const FOOTER_QUERY = `#graphql
   query Footer(
     $country: CountryCode
@@ -273,6 +326,10 @@ const FOOTER_QUERY = `#graphql
     menu(handle: $footerMenuHandle) {
       ...Menu
     }
+    localization {
+      ...Localization
+    }
   }
   ${MENU_FRAGMENT}
+  ${LOCALIZATION_FRAGMENT}
 ` as const
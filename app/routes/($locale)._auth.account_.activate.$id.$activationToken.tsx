@@ -10,18 +10,23 @@ import { Alert, AlertDescription } from '~/components/ui/alert';
 import { Label } from '~/components/ui/label';
 import { Input } from '~/components/ui/input';
 import { Button } from '~/components/ui/button';
+import {getSeoMeta} from '~/lib/seo';
+import {localizePath} from '~/lib/i18n';
+import {attachCustomerToCart} from '~/data/customer-cart';
+import {getTranslator} from '~/lib/translations/catalogs.server';
+import {useTranslation} from '~/utils';
 
 type ActionResponse = {
   error: string | null;
 };
 
-export const meta: V2_MetaFunction = () => {
-  return [{title: 'Activate Account'}];
+export const meta: V2_MetaFunction = (args) => {
+  return getSeoMeta(args, {title: 'Activate Account', noindex: true});
 };
 
 export async function loader({context}: LoaderArgs) {
   if (await context.session.get('customerAccessToken')) {
-    return redirect('/account');
+    return redirect(localizePath('/account', context.storefront.i18n));
   }
   return json({});
 }
@@ -29,14 +34,15 @@ export async function loader({context}: LoaderArgs) {
 export async function action({request, context, params}: ActionArgs) {
   const {session, storefront} = context;
   const {id, activationToken} = params;
+  const t = getTranslator(storefront.i18n.language);
 
   if (request.method !== 'POST') {
-    return json({error: 'Method not allowed'}, {status: 405});
+    return json({error: t('common.methodNotAllowed')}, {status: 405});
   }
 
   try {
     if (!id || !activationToken) {
-      throw new Error('Missing token. The link you followed might be wrong.');
+      throw new Error(t('auth.error.missingToken'));
     }
 
     const form = await request.formData();
@@ -49,7 +55,7 @@ export async function action({request, context, params}: ActionArgs) {
       password && passwordConfirm && password === passwordConfirm;
 
     if (!validPasswords) {
-      throw new Error('Passwords do not match');
+      throw new Error(t('auth.error.passwordsMismatch'));
     }
 
     const {customerActivate} = await storefront.mutate(
@@ -75,10 +81,13 @@ export async function action({request, context, params}: ActionArgs) {
     }
     session.set('customerAccessToken', customerAccessToken);
 
-    return redirect('/account', {
-      headers: {
-        'Set-Cookie': await session.commit(),
-      },
+    const headers =
+      (await attachCustomerToCart(context, customerAccessToken.accessToken)) ??
+      new Headers();
+    headers.append('Set-Cookie', await session.commit());
+
+    return redirect(localizePath('/account', context.storefront.i18n), {
+      headers,
     });
   } catch (error: unknown) {
     if (error instanceof Error) {
@@ -91,26 +100,25 @@ export async function action({request, context, params}: ActionArgs) {
 export default function Activate() {
   const action = useActionData<ActionResponse>();
   const error = action?.error ?? null;
+  const {t} = useTranslation();
 
   return (
     <Card className='max-w-md'>
       <CardHeader>
-        <CardTitle>Activate Account.</CardTitle>
-        <CardDescription>
-          Create your password to activate your account.
-        </CardDescription>
+        <CardTitle>{t('auth.activate.title')}</CardTitle>
+        <CardDescription>{t('auth.activate.description')}</CardDescription>
       </CardHeader>
       <CardContent>
         <Form method="POST" className="flex flex-col gap-4">
           <div>
-            <Label htmlFor="password">Password</Label>
+            <Label htmlFor="password">{t('common.password')}</Label>
             <Input
               id="password"
               name="password"
               type="password"
               autoComplete="current-password"
-              placeholder="Password"
-              aria-label="Password"
+              placeholder={t('common.password')}
+              aria-label={t('common.password')}
               minLength={8}
               required
               // eslint-disable-next-line jsx-a11y/no-autofocus
@@ -118,14 +126,14 @@ export default function Activate() {
             />
           </div>
           <div>
-            <Label htmlFor="passwordConfirm">Re-enter password</Label>
+            <Label htmlFor="passwordConfirm">{t('common.passwordConfirm')}</Label>
             <Input
               id="passwordConfirm"
               name="passwordConfirm"
               type="password"
               autoComplete="current-password"
-              placeholder="Re-enter password"
-              aria-label="Re-enter password"
+              placeholder={t('common.passwordConfirm')}
+              aria-label={t('common.passwordConfirm')}
               minLength={8}
               required
             />
@@ -135,7 +143,7 @@ export default function Activate() {
               <AlertDescription>{error}</AlertDescription>
             </Alert>
           )}
-          <Button type="submit">Save</Button>
+          <Button type="submit">{t('common.save')}</Button>
         </Form>
       </CardContent>
     </Card>
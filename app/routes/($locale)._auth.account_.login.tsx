@@ -6,10 +6,10 @@ import {
 } from '@shopify/remix-oxygen';
 import {
   Form,
-  Link,
   useActionData,
   type V2_MetaFunction,
 } from '@remix-run/react';
+import {Link} from '~/components/Link';
 import { Label } from '~/components/ui/label'
 import { Input } from '~/components/ui/input';
 import { Button, buttonVariants } from '~/components/ui/button';
@@ -22,28 +22,34 @@ import {
   CardHeader,
   CardTitle,
 } from '~/components/ui/card'
+import {getSeoMeta} from '~/lib/seo'
+import {localizePath} from '~/lib/i18n'
+import {attachCustomerToCart} from '~/data/customer-cart'
+import {getTranslator} from '~/lib/translations/catalogs.server'
+import {useTranslation} from '~/utils'
 
 
 type ActionResponse = {
   error: string | null;
 };
 
-export const meta: V2_MetaFunction = () => {
-  return [{title: 'Login'}];
+export const meta: V2_MetaFunction = (args) => {
+  return getSeoMeta(args, {title: 'Login', noindex: true});
 };
 
 export async function loader({context}: LoaderArgs) {
   if (await context.session.get('customerAccessToken')) {
-    return redirect('/account');
+    return redirect(localizePath('/account', context.storefront.i18n));
   }
   return json({});
 }
 
 export async function action({request, context}: ActionArgs) {
   const {session, storefront} = context;
+  const t = getTranslator(storefront.i18n.language);
 
   if (request.method !== 'POST') {
-    return json({error: 'Method not allowed'}, {status: 405});
+    return json({error: t('common.methodNotAllowed')}, {status: 405});
   }
 
   try {
@@ -53,7 +59,7 @@ export async function action({request, context}: ActionArgs) {
     const validInputs = Boolean(email && password);
 
     if (!validInputs) {
-      throw new Error('Please provide both an email and a password.');
+      throw new Error(t('auth.error.missingCredentials'));
     }
 
     const {customerAccessTokenCreate} = await storefront.mutate(
@@ -72,10 +78,13 @@ export async function action({request, context}: ActionArgs) {
     const {customerAccessToken} = customerAccessTokenCreate;
     session.set('customerAccessToken', customerAccessToken);
 
-    return redirect('/account', {
-      headers: {
-        'Set-Cookie': await session.commit(),
-      },
+    const headers =
+      (await attachCustomerToCart(context, customerAccessToken.accessToken)) ??
+      new Headers();
+    headers.append('Set-Cookie', await session.commit());
+
+    return redirect(localizePath('/account', context.storefront.i18n), {
+      headers,
     });
   } catch (error: unknown) {
     if (error instanceof Error) {
@@ -88,39 +97,38 @@ export async function action({request, context}: ActionArgs) {
 export default function Login() {
   const data = useActionData<ActionResponse>();
   const error = data?.error || null;
+  const {t} = useTranslation();
 
   return (
     <Card className="max-w-md">
       <CardHeader>
-        <CardTitle>Sign in.</CardTitle>
-        <CardDescription>
-          Sign in to your account to access your order history and update your account details.
-        </CardDescription>
+        <CardTitle>{t('auth.login.title')}</CardTitle>
+        <CardDescription>{t('auth.login.description')}</CardDescription>
       </CardHeader>
       <CardContent>
         <Form method="POST" className="flex flex-col gap-4">
           <div>
-            <Label htmlFor="email">Email address</Label>
+            <Label htmlFor="email">{t('common.emailAddress')}</Label>
             <Input
               id="email"
               name="email"
               type="email"
               autoComplete="email"
               required
-              placeholder="Email address"
-              aria-label="Email address"
+              placeholder={t('common.emailAddress')}
+              aria-label={t('common.emailAddress')}
               autoFocus
             />
           </div>
           <div>
-            <Label htmlFor="password">Password</Label>
+            <Label htmlFor="password">{t('common.password')}</Label>
             <Input
               id="password"
               name="password"
               type="password"
               autoComplete="current-password"
-              placeholder="Password"
-              aria-label="Password"
+              placeholder={t('common.password')}
+              aria-label={t('common.password')}
               minLength={8}
               required
             />
@@ -128,17 +136,17 @@ export default function Login() {
 
           {error && (
             <Alert variant="destructive">
-              <AlertTitle>Sign in failed</AlertTitle>
+              <AlertTitle>{t('auth.login.failed')}</AlertTitle>
               <AlertDescription>{error}</AlertDescription>
             </Alert>
           )}
-          <Button type="submit">Sign in</Button>
+          <Button type="submit">{t('auth.login.submit')}</Button>
         </Form>
       </CardContent>
 
       <CardFooter className="flex flex-wrap gap-4">
-        <Link className={buttonVariants({ variant: 'link' })} to="/account/recover">Forgot password →</Link>
-        <Link className={buttonVariants({ variant: 'link' })} to="/account/register">Register →</Link>
+        <Link className={buttonVariants({ variant: 'link' })} to="/account/recover">{t('auth.forgotPasswordLink')}</Link>
+        <Link className={buttonVariants({ variant: 'link' })} to="/account/register">{t('auth.registerLink')}</Link>
       </CardFooter>
     </Card>
   );
@@ -0,0 +1,36 @@
+import { json, redirect, type ActionArgs, type LoaderArgs } from '@shopify/remix-oxygen';
+import { type V2_MetaFunction } from '@remix-run/react';
+import {getSeoMeta} from '~/lib/seo';
+import {localizePath} from '~/lib/i18n';
+import {clearCartId} from '~/data/customer-cart';
+import {clearSavedLines} from '~/data/saved-for-later';
+
+export const meta: V2_MetaFunction = (args) => {
+  return getSeoMeta(args, {title: 'Logout', noindex: true});
+};
+
+export async function loader({context}: LoaderArgs) {
+  return redirect(localizePath('/account/login', context.storefront.i18n));
+}
+
+export async function action({request, context}: ActionArgs) {
+  const {session} = context;
+  session.unset('customerAccessToken');
+  // nothing of the customer's stays behind in the browser
+  clearSavedLines(session);
+  session.unset('countryCode');
+
+  if (request.method !== 'POST') {
+    return json({error: 'Method not allowed'}, {status: 405});
+  }
+
+  // the cart stays with the customer, the browser starts a new one
+  const headers = clearCartId();
+  headers.append('Set-Cookie', await session.commit());
+
+  return redirect(localizePath('/', context.storefront.i18n), {headers});
+}
+
+export default function Logout() {
+  return null;
+}
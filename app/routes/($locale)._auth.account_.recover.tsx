@@ -1,20 +1,29 @@
 import {json, redirect, type LoaderArgs} from '@shopify/remix-oxygen';
-import {Form, Link, useActionData} from '@remix-run/react';
+import {Form, useActionData, type V2_MetaFunction} from '@remix-run/react';
+import {Link} from '~/components/Link';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '~/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from '~/components/ui/alert';
 import { Button, buttonVariants } from '~/components/ui/button';
 import { Input } from '~/components/ui/input';
 import { Label } from '~/components/ui/label';
+import {getSeoMeta} from '~/lib/seo';
+import {localizePath} from '~/lib/i18n';
+import {getTranslator} from '~/lib/translations/catalogs.server';
+import {useTranslation} from '~/utils';
 
 type ActionResponse = {
   error?: string;
   resetRequested?: boolean;
 };
 
+export const meta: V2_MetaFunction = (args) => {
+  return getSeoMeta(args, {title: 'Recover Password', noindex: true});
+};
+
 export async function loader({context}: LoaderArgs) {
   const customerAccessToken = await context.session.get('customerAccessToken');
   if (customerAccessToken) {
-    return redirect('/account');
+    return redirect(localizePath('/account', context.storefront.i18n));
   }
 
   return json({});
@@ -22,16 +31,17 @@ export async function loader({context}: LoaderArgs) {
 
 export async function action({request, context}: LoaderArgs) {
   const {storefront} = context;
+  const t = getTranslator(storefront.i18n.language);
   const form = await request.formData();
   const email = form.has('email') ? String(form.get('email')) : null;
 
   if (request.method !== 'POST') {
-    return json({error: 'Method not allowed'}, {status: 405});
+    return json({error: t('common.methodNotAllowed')}, {status: 405});
   }
 
   try {
     if (!email) {
-      throw new Error('Please provide an email.');
+      throw new Error(t('auth.error.missingEmail'));
     }
     await storefront.mutate(CUSTOMER_RECOVER_MUTATION, {
       variables: {email},
@@ -49,42 +59,38 @@ export async function action({request, context}: LoaderArgs) {
 
 export default function Recover() {
   const action = useActionData<ActionResponse>();
+  const {t} = useTranslation();
 
   return (
     <Card className='max-w-md'>
       <CardHeader>
-        <CardTitle>Forgot Password.</CardTitle>
-        <CardDescription>
-          Enter the email address associated with your account to receive a
-          link to reset your password.
-        </CardDescription>
+        <CardTitle>{t('auth.recover.title')}</CardTitle>
+        <CardDescription>{t('auth.recover.description')}</CardDescription>
       </CardHeader>
       <CardContent>
         {action?.resetRequested ? (
           <>
             <Alert>
-              <AlertTitle>Request Sent</AlertTitle>
+              <AlertTitle>{t('auth.recover.sentTitle')}</AlertTitle>
               <AlertDescription>
-                If that email address is in our system, you will receive an email
-                with instructions about how to reset your password in a few
-                minutes.
+                {t('auth.recover.sentDescription')}
               </AlertDescription>
             </Alert>
-            <Link to="/account/login">Return to Login</Link>
+            <Link to="/account/login">{t('auth.recover.backToLogin')}</Link>
           </>
         ) : (
           <>
             <Form method="POST" className="flex flex-col gap-4">
               <div>
-                <Label htmlFor="email">Email address</Label>
+                <Label htmlFor="email">{t('common.emailAddress')}</Label>
                 <Input
                   id="email"
                   name="email"
                   type="email"
                   autoComplete="email"
                   required
-                  placeholder="Email address"
-                  aria-label="Email address"
+                  placeholder={t('common.emailAddress')}
+                  aria-label={t('common.emailAddress')}
                   autoFocus
                 />
               </div>
@@ -93,13 +99,13 @@ export default function Recover() {
                   <AlertDescription>{action.error}</AlertDescription>
                 </Alert>
               )}
-              <Button type="submit">Request Reset Link</Button>
+              <Button type="submit">{t('auth.recover.submit')}</Button>
             </Form>
           </>
         )}
       </CardContent>
       <CardFooter className="flex flex-wrap gap-4">
-        <Link className={buttonVariants({ variant: 'link' })} to="/account/login">Login →</Link>
+        <Link className={buttonVariants({ variant: 'link' })} to="/account/login">{t('auth.loginLink')}</Link>
       </CardFooter>
     </Card>
   );
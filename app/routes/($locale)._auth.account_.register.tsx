@@ -4,13 +4,19 @@ import {
   type ActionFunction,
   type LoaderArgs,
 } from '@shopify/remix-oxygen';
-import {Form, Link, useActionData} from '@remix-run/react';
+import {Form, useActionData, type V2_MetaFunction} from '@remix-run/react';
+import {Link} from '~/components/Link';
 import type {CustomerCreateMutation} from 'storefrontapi.generated';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '~/components/ui/card';
 import { Label } from '~/components/ui/label';
 import { Input } from '~/components/ui/input';
 import { Button, buttonVariants } from '~/components/ui/button';
 import { Alert, AlertDescription, AlertTitle } from '~/components/ui/alert';
+import {getSeoMeta} from '~/lib/seo';
+import {localizePath} from '~/lib/i18n';
+import {attachCustomerToCart} from '~/data/customer-cart';
+import {getTranslator} from '~/lib/translations/catalogs.server';
+import {useTranslation} from '~/utils';
 
 type ActionResponse = {
   error: string | null;
@@ -19,21 +25,27 @@ type ActionResponse = {
     | null;
 };
 
+export const meta: V2_MetaFunction = (args) => {
+  return getSeoMeta(args, {title: 'Register', noindex: true});
+};
+
 export async function loader({context}: LoaderArgs) {
   const customerAccessToken = await context.session.get('customerAccessToken');
   if (customerAccessToken) {
-    return redirect('/account');
+    return redirect(localizePath('/account', context.storefront.i18n));
   }
 
   return json({});
 }
 
 export const action: ActionFunction = async ({request, context}) => {
+  const {storefront, session} = context;
+  const t = getTranslator(storefront.i18n.language);
+
   if (request.method !== 'POST') {
-    return json({error: 'Method not allowed'}, {status: 405});
+    return json({error: t('common.methodNotAllowed')}, {status: 405});
   }
 
-  const {storefront, session} = context;
   const form = await request.formData();
   const email = String(form.has('email') ? form.get('email') : '');
   const password = form.has('password') ? String(form.get('password')) : null;
@@ -47,11 +59,11 @@ export const action: ActionFunction = async ({request, context}) => {
   const validInputs = Boolean(email && password);
   try {
     if (!validPasswords) {
-      throw new Error('Passwords do not match');
+      throw new Error(t('auth.error.passwordsMismatch'));
     }
 
     if (!validInputs) {
-      throw new Error('Please provide both an email and a password.');
+      throw new Error(t('auth.error.missingCredentials'));
     }
 
     const {customerCreate} = await storefront.mutate(CUSTOMER_CREATE_MUTATION, {
@@ -85,21 +97,16 @@ export const action: ActionFunction = async ({request, context}) => {
     if (!customerAccessTokenCreate?.customerAccessToken?.accessToken) {
       throw new Error('Missing access token');
     }
-    session.set(
-      'customerAccessToken',
-      customerAccessTokenCreate?.customerAccessToken,
-    );
+    const {customerAccessToken} = customerAccessTokenCreate;
+    session.set('customerAccessToken', customerAccessToken);
 
-    return json(
-      {error: null, newCustomer},
-      {
-        status: 302,
-        headers: {
-          'Set-Cookie': await session.commit(),
-          Location: '/account',
-        },
-      },
-    );
+    const headers =
+      (await attachCustomerToCart(context, customerAccessToken.accessToken)) ??
+      new Headers();
+    headers.append('Set-Cookie', await session.commit());
+    headers.set('Location', localizePath('/account', storefront.i18n));
+
+    return json({error: null, newCustomer}, {status: 302, headers});
   } catch (error: unknown) {
     if (error instanceof Error) {
       return json({error: error.message}, {status: 400});
@@ -111,65 +118,64 @@ export const action: ActionFunction = async ({request, context}) => {
 export default function Register() {
   const data = useActionData<ActionResponse>();
   const error = data?.error || null;
+  const {t} = useTranslation();
   return (
     <Card className="max-w-md">
       <CardHeader>
-        <CardTitle>Register.</CardTitle>
-        <CardDescription>
-          Register for an account to access your order history and update your account details.
-        </CardDescription>
+        <CardTitle>{t('auth.register.title')}</CardTitle>
+        <CardDescription>{t('auth.register.description')}</CardDescription>
       </CardHeader>
       <CardContent>
         <Form method="POST" className="flex flex-col gap-4">
           <div>
-            <Label htmlFor="email">Email address</Label>
+            <Label htmlFor="email">{t('common.emailAddress')}</Label>
             <Input
               id="email"
               name="email"
               type="email"
               autoComplete="email"
               required
-              placeholder="Email address"
-              aria-label="Email address"
+              placeholder={t('common.emailAddress')}
+              aria-label={t('common.emailAddress')}
               autoFocus
             />
           </div>
           <div>
-            <Label htmlFor="password">Password</Label>
+            <Label htmlFor="password">{t('common.password')}</Label>
             <Input
               id="password"
               name="password"
               type="password"
               autoComplete="current-password"
               required
-              placeholder="Password"
-              aria-label="Password"
+              placeholder={t('common.password')}
+              aria-label={t('common.password')}
             />
           </div>
           <div>
-            <Label htmlFor='passwordConfirm'>Re-enter password</Label>
+            <Label htmlFor='passwordConfirm'>{t('common.passwordConfirm')}</Label>
             <Input
               id="passwordConfirm"
               name="passwordConfirm"
               type="password"
               autoComplete="current-password"
-              placeholder="Re-enter password"
-              aria-label="Re-enter password"
+              placeholder={t('common.passwordConfirm')}
+              aria-label={t('common.passwordConfirm')}
               minLength={8}
               required
             />
           </div>
           {error && (
             <Alert variant="destructive">
-              <AlertTitle>Registration Error</AlertTitle>
+              <AlertTitle>{t('auth.register.failed')}</AlertTitle>
               <AlertDescription>{error}</AlertDescription>
             </Alert>
           )}
-          <Button type="submit">Register</Button>
+          <Button type="submit">{t('auth.register.submit')}</Button>
         </Form>
       </CardContent>
       <CardFooter className="flex flex-wrap gap-4">
-        <Link className={buttonVariants({ variant: 'link' })} to="/account/login">Login →</Link>
+        <Link className={buttonVariants({ variant: 'link' })} to="/account/login">{t('auth.loginLink')}</Link>
       </CardFooter>
     </Card>
   );
@@ -1,29 +1,37 @@
 import {type ActionArgs, json, redirect} from '@shopify/remix-oxygen';
-import {Form, Link, useActionData, type V2_MetaFunction} from '@remix-run/react';
+import {Form, useActionData, type V2_MetaFunction} from '@remix-run/react';
+import {Link} from '~/components/Link';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '~/components/ui/card';
 import { Label } from '~/components/ui/label';
 import { Input } from '~/components/ui/input';
 import { Alert, AlertDescription } from '~/components/ui/alert';
 import { Button, buttonVariants } from '~/components/ui/button';
+import {getSeoMeta} from '~/lib/seo';
+import {localizePath} from '~/lib/i18n';
+import {attachCustomerToCart} from '~/data/customer-cart';
+import {getTranslator} from '~/lib/translations/catalogs.server';
+import {useTranslation} from '~/utils';
 
 type ActionResponse = {
   error: string | null;
 };
 
-export const meta: V2_MetaFunction = () => {
-  return [{title: 'Reset Password'}];
+export const meta: V2_MetaFunction = (args) => {
+  return getSeoMeta(args, {title: 'Reset Password', noindex: true});
 };
 
 export async function action({request, context, params}: ActionArgs) {
-  if (request.method !== 'POST') {
-    return json({error: 'Method not allowed'}, {status: 405});
-  }
   const {id, resetToken} = params;
   const {session, storefront} = context;
+  const t = getTranslator(storefront.i18n.language);
+
+  if (request.method !== 'POST') {
+    return json({error: t('common.methodNotAllowed')}, {status: 405});
+  }
 
   try {
     if (!id || !resetToken) {
-      throw new Error('customer token or id not found');
+      throw new Error(t('auth.error.missingToken'));
     }
 
     const form = await request.formData();
@@ -33,7 +41,7 @@ export async function action({request, context, params}: ActionArgs) {
       : '';
     const validInputs = Boolean(password && passwordConfirm);
     if (validInputs && password !== passwordConfirm) {
-      throw new Error('Please provide matching passwords');
+      throw new Error(t('auth.error.passwordsMismatch'));
     }
 
     const {customerReset} = await storefront.mutate(CUSTOMER_RESET_MUTATION, {
@@ -52,10 +60,15 @@ export async function action({request, context, params}: ActionArgs) {
     }
     session.set('customerAccessToken', customerReset.customerAccessToken);
 
-    return redirect('/account', {
-      headers: {
-        'Set-Cookie': await session.commit(),
-      },
+    const headers =
+      (await attachCustomerToCart(
+        context,
+        customerReset.customerAccessToken.accessToken,
+      )) ?? new Headers();
+    headers.append('Set-Cookie', await session.commit());
+
+    return redirect(localizePath('/account', context.storefront.i18n), {
+      headers,
     });
   } catch (error: unknown) {
     if (error instanceof Error) {
@@ -67,41 +80,40 @@ export async function action({request, context, params}: ActionArgs) {
 
 export default function Reset() {
   const action = useActionData<ActionResponse>();
+  const {t} = useTranslation();
 
   return (
     <Card className='max-w-md'>
       <CardHeader>
-        <CardTitle>Reset Password.</CardTitle>
-        <CardDescription>
-          Enter a new password for your account.
-        </CardDescription>
+        <CardTitle>{t('auth.reset.title')}</CardTitle>
+        <CardDescription>{t('auth.reset.description')}</CardDescription>
       </CardHeader>
       <CardContent>
         <Form method="POST" className="flex flex-col gap-4">
           <div>
-            <Label htmlFor="password">Password</Label>
+            <Label htmlFor="password">{t('common.password')}</Label>
             <Input
-              aria-label="Password"
+              aria-label={t('common.password')}
               autoComplete="current-password"
               // eslint-disable-next-line jsx-a11y/no-autofocus
               autoFocus
               id="password"
               minLength={8}
               name="password"
-              placeholder="Password"
+              placeholder={t('common.password')}
               required
               type="password"
             />
           </div>
           <div>
-            <Label htmlFor="passwordConfirm">Re-enter password</Label>
+            <Label htmlFor="passwordConfirm">{t('common.passwordConfirm')}</Label>
             <Input
-              aria-label="Re-enter password"
+              aria-label={t('common.passwordConfirm')}
               autoComplete="current-password"
               id="passwordConfirm"
               minLength={8}
               name="passwordConfirm"
-              placeholder="Re-enter password"
+              placeholder={t('common.passwordConfirm')}
               required
               type="password"
             />
@@ -111,12 +123,12 @@ export default function Reset() {
               <AlertDescription>{action.error}</AlertDescription>
             </Alert>
           )}
-          <Button type="submit">Reset</Button>
+          <Button type="submit">{t('auth.reset.submit')}</Button>
         </Form>
       </CardContent>
 
       <CardFooter className="flex flex-wrap gap-4">
-        <Link className={buttonVariants({ variant: 'link' })} to="/account/login">Login →</Link>
+        <Link className={buttonVariants({ variant: 'link' })} to="/account/login">{t('auth.loginLink')}</Link>
       </CardFooter>
     </Card>
   );
@@ -2,18 +2,19 @@ import {defer, type LoaderArgs} from '@shopify/remix-oxygen';
 import {
   Await,
   useLoaderData,
-  Link,
   type V2_MetaFunction,
 } from '@remix-run/react';
+import {Link} from '~/components/Link';
 import {Suspense} from 'react';
 import {Image, Money} from '@shopify/hydrogen';
 import type {
   FeaturedCollectionFragment,
   RecommendedProductsQuery,
 } from 'storefrontapi.generated';
+import {getSeoMeta} from '~/lib/seo';
 
-export const meta: V2_MetaFunction = () => {
-  return [{title: 'Hydrogen | Home'}];
+export const meta: V2_MetaFunction = (args) => {
+  return getSeoMeta(args);
 };
 
 export async function loader({context}: LoaderArgs) {
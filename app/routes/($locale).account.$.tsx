@@ -0,0 +1,9 @@
+import { redirect, type LoaderArgs } from '@shopify/remix-oxygen';
+import { localizePath } from '~/lib/i18n';
+
+export async function loader({context}: LoaderArgs) {
+  if (await context.session.get('customerAccessToken')) {
+    return redirect(localizePath('/account', context.storefront.i18n));
+  }
+  return redirect(localizePath('/account/login', context.storefront.i18n));
+}
@@ -21,6 +21,10 @@ import { Input } from '~/components/ui/input';
 import { Checkbox } from '~/components/ui/checkbox';
 import { Alert, AlertDescription, AlertTitle } from '~/components/ui/alert';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '~/components/ui/card';
+import {getSeoMeta} from '~/lib/seo';
+import {localizePath} from '~/lib/i18n';
+import {getTranslator} from '~/lib/translations/catalogs.server';
+import {useTranslation} from '~/utils';
 
 export type ActionResponse = {
   addressId?: string | null;
@@ -31,15 +35,15 @@ export type ActionResponse = {
   updatedAddress?: AddressFragment;
 };
 
-export const meta: V2_MetaFunction = () => {
-  return [{title: 'Addresses'}];
+export const meta: V2_MetaFunction = (args) => {
+  return getSeoMeta(args, {title: 'Addresses', noindex: true});
 };
 
 export async function loader({context}: LoaderArgs) {
   const {session} = context;
   const customerAccessToken = await session.get('customerAccessToken');
   if (!customerAccessToken) {
-    return redirect('/account/login');
+    return redirect(localizePath('/account/login', context.storefront.i18n));
   }
   return json({});
 }
@@ -209,7 +213,13 @@ export async function action({request, context}: ActionArgs) {
 
       default: {
         return json(
-          {error: {[addressId]: 'Method not allowed'}},
+          {
+            error: {
+              [addressId]: getTranslator(storefront.i18n.language)(
+                'common.methodNotAllowed',
+              ),
+            },
+          },
           {status: 405},
         );
       }
@@ -225,24 +235,25 @@ export async function action({request, context}: ActionArgs) {
 export default function Addresses() {
   const {customer} = useOutletContext<{customer: CustomerFragment}>();
   const {defaultAddress, addresses} = customer;
+  const {t} = useTranslation();
 
   return (
     <div className="account-addresses">
-      <h2>Addresses</h2>
+      <h2>{t('account.addresses')}</h2>
       {!addresses.nodes.length ? (
-        <p>You have no addresses saved.</p>
+        <p>{t('account.addresses.empty')}</p>
       ) : (
         <div className="flex flex-col items-start gap-4 my-4">
           <Dialog>
             <DialogTrigger asChild>
               <Button>
                 <Icon icon="lucide:plus" className="w-4 h-4 mr-2" />
-                Create Address
+                {t('account.addresses.create')}
               </Button>
             </DialogTrigger>
             <DialogContent>
               <DialogHeader>
-                <DialogTitle>Create Address</DialogTitle>
+                <DialogTitle>{t('account.addresses.create')}</DialogTitle>
               </DialogHeader>
               <NewAddressForm />
             </DialogContent>
@@ -259,6 +270,7 @@ export default function Addresses() {
 }
 
 function NewAddressForm() {
+  const {t} = useTranslation();
   const newAddress = {
     address1: '',
     address2: '',
@@ -283,7 +295,9 @@ function NewAddressForm() {
             type="submit"
           >
             <Icon icon={stateForMethod('POST') !== 'idle' ? 'lucide:loader-2' : 'lucide:check'} className={`${stateForMethod('POST') !== 'idle' ? 'animate-spin' : ''} mr-2 w-4 h-4`} />
-            {stateForMethod('POST') !== 'idle' ? 'Creating' : 'Create'}
+            {stateForMethod('POST') !== 'idle'
+              ? t('account.addresses.creating')
+              : t('account.addresses.createSubmit')}
           </Button>
         </div>
       )}
@@ -295,9 +309,10 @@ function ExistingAddresses({
   addresses,
   defaultAddress,
 }: Pick<CustomerFragment, 'addresses' | 'defaultAddress'>) {
+  const {t} = useTranslation();
   return (
     <div className="w-full">
-      <h3>Existing addresses</h3>
+      <h3>{t('account.addresses.existing')}</h3>
       <div className="grid gap-2 my-2 lg:grid-cols-2">
         {addresses.nodes.map((address) => (
           <ExistingAddressCard
@@ -318,6 +333,7 @@ export function ExistingAddressCard({
   address: AddressFragment;
   defaultAddress: CustomerFragment['defaultAddress'];
 }) {
+  const {t} = useTranslation();
   return (
     <Card>
       <CardHeader>
@@ -345,12 +361,12 @@ export function ExistingAddressCard({
           <DialogTrigger asChild>
             <Button variant="outline">
               <Icon icon="lucide:edit" className="w-4 h-4 mr-2" />
-              Edit
+              {t('account.addresses.edit')}
             </Button>
           </DialogTrigger>
           <DialogContent>
             <DialogHeader>
-              <DialogTitle>Edit Address</DialogTitle>
+              <DialogTitle>{t('account.addresses.editTitle')}</DialogTitle>
             </DialogHeader>
             <AddressForm
               key={address.id}
@@ -365,7 +381,9 @@ export function ExistingAddressCard({
                     type="submit"
                   >
                     <Icon icon={stateForMethod('PUT') !== 'idle' ? 'lucide:loader-2' : 'lucide:save'} className={`${stateForMethod('PUT') !== 'idle' ? 'animate-spin' : ''} mr-2 w-4 h-4`} />
-                    {stateForMethod('PUT') !== 'idle' ? 'Saving' : 'Save'}
+                    {stateForMethod('PUT') !== 'idle'
+                      ? t('common.saving')
+                      : t('common.save')}
                   </Button>
                   <Button
                     disabled={stateForMethod('DELETE') !== 'idle'}
@@ -374,7 +392,9 @@ export function ExistingAddressCard({
                     variant="destructive"
                   >
                     <Icon icon={stateForMethod('DELETE') !== 'idle' ? 'lucide:loader-2' : 'lucide:trash'} className={`${stateForMethod('DELETE') !== 'idle' ? 'animate-spin' : ''} mr-2 w-4 h-4`} />
-                    {stateForMethod('DELETE') !== 'idle' ? 'Deleting' : 'Delete'}
+                    {stateForMethod('DELETE') !== 'idle'
+                      ? t('account.addresses.deleting')
+                      : t('account.addresses.delete')}
                   </Button>
                 </div>
               )}
@@ -403,128 +423,129 @@ export function AddressForm({
   const action = useActionData<ActionResponse>();
   const error = action?.error?.[address.id];
   const isDefaultAddress = defaultAddress?.id === address.id;
+  const {t} = useTranslation();
   return (
     <Form id={address.id} className="flex flex-col gap-2">
       <input type="hidden" name="addressId" defaultValue={address.id} />
       <div className="space-y-1">
-        <Label htmlFor="firstName">First name*</Label>
+        <Label htmlFor="firstName">{t('account.profile.firstName')}*</Label>
         <Input
-          aria-label="First name"
+          aria-label={t('account.profile.firstName')}
           autoComplete="given-name"
           defaultValue={address?.firstName ?? ''}
           id="firstName"
           name="firstName"
-          placeholder="First name"
+          placeholder={t('account.profile.firstName')}
           required
           type="text"
         />
       </div>
       <div className="space-y-1">
-        <Label htmlFor="lastName">Last name*</Label>
+        <Label htmlFor="lastName">{t('account.profile.lastName')}*</Label>
         <Input
-          aria-label="Last name"
+          aria-label={t('account.profile.lastName')}
           autoComplete="family-name"
           defaultValue={address?.lastName ?? ''}
           id="lastName"
           name="lastName"
-          placeholder="Last name"
+          placeholder={t('account.profile.lastName')}
           required
           type="text"
         />
       </div>
       <div className="space-y-1">
-        <Label htmlFor="company">Company</Label>
+        <Label htmlFor="company">{t('account.addresses.company')}</Label>
         <Input
-          aria-label="Company"
+          aria-label={t('account.addresses.company')}
           autoComplete="organization"
           defaultValue={address?.company ?? ''}
           id="company"
           name="company"
-          placeholder="Company"
+          placeholder={t('account.addresses.company')}
           type="text"
         />
       </div>
       <div className="space-y-1">
-        <Label htmlFor="address1">Address line*</Label>
+        <Label htmlFor="address1">{t('account.addresses.address1')}*</Label>
         <Input
-          aria-label="Address line 1"
+          aria-label={t('account.addresses.address1')}
           autoComplete="address-line1"
           defaultValue={address?.address1 ?? ''}
           id="address1"
           name="address1"
-          placeholder="Address line 1*"
+          placeholder={`${t('account.addresses.address1')}*`}
           required
           type="text"
         />
       </div>
       <div className="space-y-1">
-        <Label htmlFor="address2">Address line 2</Label>
+        <Label htmlFor="address2">{t('account.addresses.address2')}</Label>
         <Input
-          aria-label="Address line 2"
+          aria-label={t('account.addresses.address2')}
           autoComplete="address-line2"
           defaultValue={address?.address2 ?? ''}
           id="address2"
           name="address2"
-          placeholder="Address line 2"
+          placeholder={t('account.addresses.address2')}
           type="text"
         />
       </div>
       <div className="space-y-1">
-        <Label htmlFor="city">City*</Label>
+        <Label htmlFor="city">{t('account.addresses.city')}*</Label>
         <Input
-          aria-label="City"
+          aria-label={t('account.addresses.city')}
           autoComplete="address-level2"
           defaultValue={address?.city ?? ''}
           id="city"
           name="city"
-          placeholder="City"
+          placeholder={t('account.addresses.city')}
           required
           type="text"
         />
       </div>
       <div className="space-y-1">
-        <Label htmlFor="province">State / Province*</Label>
+        <Label htmlFor="province">{t('account.addresses.province')}*</Label>
         <Input
-          aria-label="State"
+          aria-label={t('account.addresses.province')}
           autoComplete="address-level1"
           defaultValue={address?.province ?? ''}
           id="province"
           name="province"
-          placeholder="State / Province"
+          placeholder={t('account.addresses.province')}
           required
           type="text"
         />
       </div>
       <div className="space-y-1">
-        <Label htmlFor="zip">Zip / Postal Code*</Label>
+        <Label htmlFor="zip">{t('account.addresses.zip')}*</Label>
         <Input
-          aria-label="Zip"
+          aria-label={t('account.addresses.zip')}
           autoComplete="postal-code"
           defaultValue={address?.zip ?? ''}
           id="zip"
           name="zip"
-          placeholder="Zip / Postal Code"
+          placeholder={t('account.addresses.zip')}
           required
           type="text"
         />
       </div>
       <div className="space-y-1">
-        <Label htmlFor="country">Country*</Label>
+        <Label htmlFor="country">{t('account.addresses.country')}*</Label>
         <Input
-          aria-label="Country"
+          aria-label={t('account.addresses.country')}
           autoComplete="country-name"
           defaultValue={address?.country ?? ''}
           id="country"
           name="country"
-          placeholder="Country"
+          placeholder={t('account.addresses.country')}
           required
           type="text"
         />
       </div>
       <div className="space-y-1">
-        <Label htmlFor="phone">Phone</Label>
+        <Label htmlFor="phone">{t('account.addresses.phone')}</Label>
         <Input
-          aria-label="Phone"
+          aria-label={t('account.addresses.phone')}
           autoComplete="tel"
           defaultValue={address?.phone ?? ''}
           id="phone"
@@ -535,11 +556,11 @@ export function AddressForm({
       </div>
       <div className="flex items-center gap-1 my-1">
         <Checkbox id="defaultAddress" defaultChecked={isDefaultAddress} />
-        <Label htmlFor="defaultAddress">Set as default address</Label>
+        <Label htmlFor="defaultAddress">{t('account.addresses.setDefault')}</Label>
       </div>
       {error && (
         <Alert variant="destructive">
-          <AlertTitle>Error</AlertTitle>
+          <AlertTitle>{t('common.error')}</AlertTitle>
           <AlertDescription>{error}</AlertDescription>
         </Alert>
       )}
@@ -1,27 +1,36 @@
+import {Fragment} from 'react';
 import {json, redirect, type LoaderArgs} from '@shopify/remix-oxygen';
-import {Link, useLoaderData, type V2_MetaFunction} from '@remix-run/react';
+import {useLoaderData, type V2_MetaFunction} from '@remix-run/react';
+import {Link} from '~/components/Link';
 import {Money, Image, flattenConnection} from '@shopify/hydrogen';
 import type {OrderLineItemFullFragment} from 'storefrontapi.generated';
 import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '~/components/ui/table';
 import { buttonVariants } from '~/components/ui/button';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '~/components/ui/card';
+import {getSeoMeta} from '~/lib/seo';
+import {localizePath} from '~/lib/i18n';
+import {useTranslation} from '~/utils';
+import {getVisibleAttributes} from '~/lib/cart';
 
-export const meta: V2_MetaFunction<typeof loader> = ({data}) => {
-  return [{title: `Order ${data?.order?.name}`}];
+export const meta: V2_MetaFunction<typeof loader> = (args) => {
+  return getSeoMeta(args, {
+    title: `Order ${args.data?.order?.name}`,
+    noindex: true,
+  });
 };
 
 export async function loader({params, context}: LoaderArgs) {
   const {session, storefront} = context;
 
   if (!params.id) {
-    return redirect('/account/orders');
+    return redirect(localizePath('/account/orders', context.storefront.i18n));
   }
 
   const orderId = atob(params.id);
   const customerAccessToken = await session.get('customerAccessToken');
 
   if (!customerAccessToken) {
-    return redirect('/account/login');
+    return redirect(localizePath('/account/login', context.storefront.i18n));
   }
 
   const {order} = await storefront.query(CUSTOMER_ORDER_QUERY, {
@@ -55,20 +64,29 @@ export async function loader({params, context}: LoaderArgs) {
 export default function OrderRoute() {
   const {order, lineItems, discountValue, discountPercentage} =
     useLoaderData<typeof loader>();
+  const {t, language} = useTranslation();
+  const attributes = getVisibleAttributes(order.customAttributes);
   return (
     <div>
-      <Link className={`${buttonVariants({variant: "link"})} pl-0`} to="/account/orders">← Back to Orders</Link>
+      <Link className={`${buttonVariants({variant: "link"})} pl-0`} to="/account/orders">{t('account.order.back')}</Link>
       <div>
-        <h2> Order {order.name}</h2>
-        <span className="text-sm text-muted-foreground">Placed on {new Date(order.processedAt!).toDateString()}</span>
+        <h2>{t('account.order.title', {name: order.name})}</h2>
+        <span className="text-sm text-muted-foreground">
+          {t('account.order.placedOn', {
+            date: new Date(order.processedAt!).toLocaleDateString(
+              language.toLowerCase(),
+              {dateStyle: 'medium'},
+            ),
+          })}
+        </span>
       </div>
       <Table className="my-2">
         <TableHeader>
           <TableRow>
-            <TableHead>Product</TableHead>
-            <TableHead>Price</TableHead>
-            <TableHead>Quantity</TableHead>
-            <TableHead>Total</TableHead>
+            <TableHead>{t('account.order.product')}</TableHead>
+            <TableHead>{t('account.order.price')}</TableHead>
+            <TableHead>{t('account.order.quantity')}</TableHead>
+            <TableHead>{t('account.order.total')}</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
@@ -81,14 +99,18 @@ export default function OrderRoute() {
             discountPercentage) && (
               <TableRow>
                 <TableHead scope="row" colSpan={3}>
-                  Discounts
+                  {t('account.order.discounts')}
                 </TableHead>
                 <TableHead scope="row">
-                  Discounts
+                  {t('account.order.discounts')}
                 </TableHead>
                 <TableCell>
                   {discountPercentage ? (
-                    <span>-{discountPercentage}% OFF</span>
+                    <span>
+                      {t('account.order.percentOff', {
+                        percent: discountPercentage,
+                      })}
+                    </span>
                   ) : (
                     discountValue && <Money data={discountValue!} />
                   )}
@@ -97,10 +119,10 @@ export default function OrderRoute() {
             )}
           <TableRow>
             <TableHead scope="row" colSpan={2}>
-              Subtotal
+              {t('account.order.subtotal')}
             </TableHead>
             <TableHead scope="row">
-              Subtotal
+              {t('account.order.subtotal')}
             </TableHead>
             <TableCell>
               <Money data={order.subtotalPriceV2!} />
@@ -108,10 +130,10 @@ export default function OrderRoute() {
           </TableRow>
           <TableRow>
             <TableHead scope="row" colSpan={2}>
-              Tax
+              {t('account.order.tax')}
             </TableHead>
             <TableHead scope="row">
-              Tax
+              {t('account.order.tax')}
             </TableHead>
             <TableCell>
               <Money data={order.totalTaxV2!} />
@@ -119,10 +141,10 @@ export default function OrderRoute() {
           </TableRow>
           <TableRow>
             <TableHead scope="row" colSpan={2}>
-              Total
+              {t('account.order.total')}
             </TableHead>
             <TableHead>
-              Total
+              {t('account.order.total')}
             </TableHead>
             <TableCell>
               <Money data={order.totalPriceV2!} />
@@ -134,7 +156,7 @@ export default function OrderRoute() {
       <div className="grid gap-4 my-2 lg:grid-cols-2">
         <Card>
           <CardHeader>
-            <CardTitle>Shipping Address</CardTitle>
+            <CardTitle>{t('account.order.shippingAddress')}</CardTitle>
           </CardHeader>
           <CardContent>
             {order?.shippingAddress ? (
@@ -153,24 +175,42 @@ export default function OrderRoute() {
                 )}
               </address>
             ) : (
-              <p>No shipping address defined</p>
+              <p>{t('account.order.noShippingAddress')}</p>
             )}
           </CardContent>
         </Card>
 
         <Card className="flex flex-col">
           <CardHeader>
-            <CardTitle>OrderStatus</CardTitle>
+            <CardTitle>{t('account.order.status')}</CardTitle>
           </CardHeader>
           <CardContent className="flex-1">
             <p>{order.fulfillmentStatus}</p>
           </CardContent>
           <CardFooter>
             <Link className={`${buttonVariants({variant: "link"})} pl-0`} to={order.statusUrl} target="_blank" rel="noreferrer">
-              View Order Status →
+              {t('account.order.viewStatus')}
             </Link>
           </CardFooter>
         </Card>
+
+        {attributes.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('account.order.details')}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+                {attributes.map(({key, value}) => (
+                  <Fragment key={key}>
+                    <dt className="text-muted-foreground">{key}</dt>
+                    <dd className="whitespace-pre-line">{value}</dd>
+                  </Fragment>
+                ))}
+              </dl>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -188,6 +228,11 @@ function OrderLineRow({lineItem}: {lineItem: OrderLineItemFullFragment}) {
             <div className="flex flex-col gap-1">
               <span>{lineItem.title}</span>
               <span className="text-sm text-muted-foreground">{lineItem.variant!.title}</span>
+              {getVisibleAttributes(lineItem.customAttributes).map(({key, value}) => (
+                <span key={key} className="text-sm text-muted-foreground">
+                  {key}: {value}
+                </span>
+              ))}
             </div>
           </Link>
         </div>
@@ -258,6 +303,10 @@ const CUSTOMER_ORDER_QUERY = `#graphql
   fragment OrderLineItemFull on OrderLineItem {
     title
     quantity
+    customAttributes {
+      key
+      value
+    }
     discountAllocations {
       allocatedAmount {
         ...OrderMoney
@@ -283,6 +332,10 @@ const CUSTOMER_ORDER_QUERY = `#graphql
     statusUrl
     processedAt
     fulfillmentStatus
+    customAttributes {
+      key
+      value
+    }
     totalTaxV2 {
       ...OrderMoney
     }
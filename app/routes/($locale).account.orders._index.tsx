@@ -1,4 +1,5 @@
-import { Link, useLoaderData, type V2_MetaFunction } from '@remix-run/react';
+import { useLoaderData, type V2_MetaFunction } from '@remix-run/react';
+import { Link } from '~/components/Link';
 import { Money, Pagination, getPaginationVariables } from '@shopify/hydrogen';
 import { json, redirect, type LoaderArgs } from '@shopify/remix-oxygen';
 import type {
@@ -9,9 +10,12 @@ import { Badge } from '~/components/ui/badge';
 import { buttonVariants } from '~/components/ui/button';
 import { Card, CardFooter, CardHeader, CardTitle } from '~/components/ui/card';
 import { Icon } from '@iconify/react';
+import {getSeoMeta} from '~/lib/seo';
+import {localizePath} from '~/lib/i18n';
+import {useTranslation} from '~/utils';
 
-export const meta: V2_MetaFunction = () => {
-  return [{title: 'Orders'}];
+export const meta: V2_MetaFunction = (args) => {
+  return getSeoMeta(args, {title: 'Orders', noindex: true});
 };
 
 export async function loader({request, context}: LoaderArgs) {
@@ -19,7 +23,7 @@ export async function loader({request, context}: LoaderArgs) {
 
   const customerAccessToken = await session.get('customerAccessToken');
   if (!customerAccessToken?.accessToken) {
-    return redirect('/account/login');
+    return redirect(localizePath('/account/login', context.storefront.i18n));
   }
 
   try {
@@ -53,10 +57,11 @@ export async function loader({request, context}: LoaderArgs) {
 export default function Orders() {
   const {customer} = useLoaderData<{customer: CustomerOrdersFragment}>();
   const {orders, numberOfOrders} = customer;
+  const {t} = useTranslation();
   return (
     <div>
       <h2>
-        Orders <small>({numberOfOrders})</small>
+        {t('account.orders')} <small>({numberOfOrders})</small>
       </h2>
       {orders.nodes.length ? <OrdersList orders={orders} /> : <EmptyOrders />}
     </div>
@@ -64,6 +69,7 @@ export default function Orders() {
 }
 
 function OrdersList({orders}: Pick<CustomerOrdersFragment, 'orders'>) {
+  const {t} = useTranslation();
   return (
     <div className="flex flex-col gap-4">
       {orders?.nodes.length ? (
@@ -75,7 +81,7 @@ function OrdersList({orders}: Pick<CustomerOrdersFragment, 'orders'>) {
                   <PreviousLink className={buttonVariants({ variant: 'default' })} aria-disabled={isLoading}>
                     <>
                       <Icon icon={isLoading ? 'lucide:loader-2' : 'lucide:arrow-up'} className={`${isLoading ? 'animate-spin' : ''} w-4 h-4 mr-2`} />
-                      <span>{isLoading ? 'Loading' : 'Load'} previous</span>
+                      <span>{isLoading ? t('common.loading') : t('common.loadPrevious')}</span>
                     </>
                   </PreviousLink>
                 </div>
@@ -88,7 +94,7 @@ function OrdersList({orders}: Pick<CustomerOrdersFragment, 'orders'>) {
                   <NextLink className={buttonVariants({ variant: 'default' })} aria-disabled={isLoading}>
                     <>
                       <Icon icon={isLoading ? 'lucide:loader-2' : 'lucide:arrow-down'} className={`${isLoading ? 'animate-spin' : ''} mr-2 w-4 h-4`} />
-                      <span>{isLoading ? 'Loading' : 'Load'} more</span>
+                      <span>{isLoading ? t('common.loading') : t('common.loadMore')}</span>
                     </>
                   </NextLink>
                 </div>
@@ -104,18 +110,20 @@ function OrdersList({orders}: Pick<CustomerOrdersFragment, 'orders'>) {
 }
 
 function EmptyOrders() {
+  const {t} = useTranslation();
   return (
     <div>
-      <p>You haven&apos;t placed any orders yet.</p>
+      <p>{t('account.orders.empty')}</p>
       <br />
       <p>
-        <Link className={buttonVariants({ variant: 'link' })} to="/collections">Start Shopping →</Link>
+        <Link className={buttonVariants({ variant: 'link' })} to="/collections">{t('account.orders.startShopping')}</Link>
       </p>
     </div>
   );
 }
 
 function OrderItem({order}: {order: OrderItemFragment}) {
+  const {t, language} = useTranslation();
   return (
     <Card>
       <CardHeader>
@@ -127,7 +135,12 @@ function OrderItem({order}: {order: OrderItemFragment}) {
           #{order.orderNumber}
         </CardTitle>
         <div className="flex items-center gap-2 text-sm text-muted-foreground">
-          <span>{new Date(order.processedAt).toDateString()}</span>
+          <span>
+            {new Date(order.processedAt).toLocaleDateString(
+              language.toLowerCase(),
+              {dateStyle: 'medium'},
+            )}
+          </span>
           •
           <Money data={order.currentTotalPrice} />
         </div>
@@ -137,7 +150,7 @@ function OrderItem({order}: {order: OrderItemFragment}) {
           className={`${buttonVariants({ variant: 'link' })} !p-0`}
           to={`/account/orders/${btoa(order.id)}`}
         >
-          View Order
+          {t('account.orders.view')}
           <Icon icon="lucide:arrow-right" className="ml-1" />
         </Link>
       </CardFooter>
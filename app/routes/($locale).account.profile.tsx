@@ -18,29 +18,35 @@ import { Input } from '~/components/ui/input';
 import { Checkbox } from '~/components/ui/checkbox';
 import { Alert, AlertDescription, AlertTitle } from '~/components/ui/alert';
 import { Button } from '~/components/ui/button';
+import {getSeoMeta} from '~/lib/seo';
+import {localizePath} from '~/lib/i18n';
+import type {Translate} from '~/lib/translations';
+import {getTranslator} from '~/lib/translations/catalogs.server';
+import {useTranslation} from '~/utils';
 
 export type ActionResponse = {
   error: string | null;
   customer: CustomerFragment | null;
 };
 
-export const meta: V2_MetaFunction = () => {
-  return [{title: 'Profile'}];
+export const meta: V2_MetaFunction = (args) => {
+  return getSeoMeta(args, {title: 'Profile', noindex: true});
 };
 
 export async function loader({context}: LoaderArgs) {
   const customerAccessToken = await context.session.get('customerAccessToken');
   if (!customerAccessToken) {
-    return redirect('/account/login');
+    return redirect(localizePath('/account/login', context.storefront.i18n));
   }
   return json({});
 }
 
 export async function action({request, context}: ActionArgs) {
   const {session, storefront} = context;
+  const t = getTranslator(storefront.i18n.language);
 
   if (request.method !== 'PUT') {
-    return json({error: 'Method not allowed'}, {status: 405});
+    return json({error: t('common.methodNotAllowed')}, {status: 405});
   }
 
   const form = await request.formData();
@@ -50,7 +56,7 @@ export async function action({request, context}: ActionArgs) {
   }
 
   try {
-    const password = getPassword(form);
+    const password = getPassword(form, t);
     const customer: CustomerUpdateInput = {};
     const validInputKeys = [
       'firstName',
@@ -117,68 +123,69 @@ export default function AccountProfile() {
   const {state} = useNavigation();
   const action = useActionData<ActionResponse>();
   const customer = action?.customer ?? account?.customer;
+  const {t} = useTranslation();
 
   return (
     <div className="account-profile">
-      <h2>My profile</h2>
+      <h2>{t('account.profile.title')}</h2>
       <br />
       <Form method="PUT" className="flex flex-col gap-3">
 
         <div>
-          <h3>Personal Information</h3>
+          <h3>{t('account.profile.personal')}</h3>
         </div>
 
         <div className="space-y-1">
-          <Label htmlFor="firstName">First name</Label>
+          <Label htmlFor="firstName">{t('account.profile.firstName')}</Label>
           <Input
             id="firstName"
             name="firstName"
             type="text"
             autoComplete="given-name"
-            placeholder="First name"
-            aria-label="First name"
+            placeholder={t('account.profile.firstName')}
+            aria-label={t('account.profile.firstName')}
             defaultValue={customer.firstName ?? ''}
             minLength={2}
           />
         </div>
 
         <div className="space-y-1">
-          <Label htmlFor="lastName">Last name</Label>
+          <Label htmlFor="lastName">{t('account.profile.lastName')}</Label>
           <Input
             id="lastName"
             name="lastName"
             type="text"
             autoComplete="family-name"
-            placeholder="Last name"
-            aria-label="Last name"
+            placeholder={t('account.profile.lastName')}
+            aria-label={t('account.profile.lastName')}
             defaultValue={customer.lastName ?? ''}
             minLength={2}
           />
         </div>
 
         <div className="space-y-1">
-          <Label htmlFor="phone">Mobile</Label>
+          <Label htmlFor="phone">{t('account.profile.mobile')}</Label>
           <Input
             id="phone"
             name="phone"
             type="tel"
             autoComplete="tel"
-            placeholder="Mobile"
-            aria-label="Mobile"
+            placeholder={t('account.profile.mobile')}
+            aria-label={t('account.profile.mobile')}
             defaultValue={customer.phone ?? ''}
           />
         </div>
 
         <div className="space-y-1">
-          <Label htmlFor="email">Email address</Label>
+          <Label htmlFor="email">{t('common.emailAddress')}</Label>
           <Input
             id="email"
             name="email"
             type="email"
             autoComplete="email"
             required
-            placeholder="Email address"
-            aria-label="Email address"
+            placeholder={t('common.emailAddress')}
+            aria-label={t('common.emailAddress')}
             defaultValue={customer.email ?? ''}
           />
         </div>
@@ -189,68 +196,72 @@ export default function AccountProfile() {
             htmlFor="acceptsMarketing"
             className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
           >
-            Subscribed to marketing communications
+            {t('account.profile.acceptsMarketing')}
           </label>
         </div>
 
         <div className="mt-4">
-          <h3>Change password (optional)</h3>
+          <h3>{t('account.profile.changePassword')}</h3>
         </div>
 
         <div className="space-y-1">
-          <Label htmlFor="currentPassword">Current password</Label>
+          <Label htmlFor="currentPassword">{t('account.profile.currentPassword')}</Label>
           <Input
             id="currentPassword"
             name="currentPassword"
             type="password"
             autoComplete="current-password"
-            placeholder="Current password"
-            aria-label="Current password"
+            placeholder={t('account.profile.currentPassword')}
+            aria-label={t('account.profile.currentPassword')}
             minLength={8}
           />
         </div>
 
         <div className="space-y-1">
-          <Label htmlFor="newPassword">New password</Label>
+          <Label htmlFor="newPassword">{t('account.profile.newPassword')}</Label>
           <Input
             id="newPassword"
             name="newPassword"
             type="password"
-            placeholder="New password"
-            aria-label="New password"
+            placeholder={t('account.profile.newPassword')}
+            aria-label={t('account.profile.newPassword')}
             minLength={8}
           />
         </div>
 
         <div className="space-y-1">
-          <Label htmlFor="newPasswordConfirm">New password (confirm)</Label>
+          <Label htmlFor="newPasswordConfirm">{t('account.profile.newPasswordConfirm')}</Label>
           <Input
             id="newPasswordConfirm"
             name="newPasswordConfirm"
             type="password"
-            placeholder="New password (confirm)"
-            aria-label="New password confirm"
+            placeholder={t('account.profile.newPasswordConfirm')}
+            aria-label={t('account.profile.newPasswordConfirm')}
             minLength={8}
           />
-          <p className="text-sm text-muted-foreground">Passwords must be at least 8 characters.</p>
+          <p className="text-sm text-muted-foreground">
+            {t('account.profile.passwordHint')}
+          </p>
         </div>
 
         {action?.error && (
           <Alert variant="destructive" className="my-4">
-            <AlertTitle>Couldn't update account</AlertTitle>
+            <AlertTitle>{t('account.profile.updateFailed')}</AlertTitle>
             <AlertDescription>{action.error}</AlertDescription>
           </Alert>
         )}
 
         <Button type="submit" disabled={state !== 'idle'} className="mt-4">
-          {state !== 'idle' ? 'Updating' : 'Update'}
+          {state !== 'idle'
+            ? t('account.profile.updating')
+            : t('account.profile.update')}
         </Button>
       </Form>
     </div>
   );
 }
 
-function getPassword(form: FormData): string | undefined {
+function getPassword(form: FormData, t: Translate): string | undefined {
   let password;
   const currentPassword = form.get('currentPassword');
   const newPassword = form.get('newPassword');
@@ -258,16 +269,16 @@ function getPassword(form: FormData): string | undefined {
 
   let passwordError;
   if (newPassword && !currentPassword) {
-    passwordError = new Error('Current password is required.');
+    passwordError = new Error(t('account.profile.error.currentPasswordRequired'));
   }
 
   if (newPassword && newPassword !== newPasswordConfirm) {
-    passwordError = new Error('New passwords must match.');
+    passwordError = new Error(t('account.profile.error.newPasswordsMismatch'));
   }
 
   if (newPassword && currentPassword && newPassword === currentPassword) {
     passwordError = new Error(
-      'New password must be different than current password.',
+      t('account.profile.error.newPasswordUnchanged'),
     );
   }
 
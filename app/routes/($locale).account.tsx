@@ -1,10 +1,19 @@
 import { Icon } from '@iconify/react';
-import {Form, NavLink, Outlet, useLoaderData} from '@remix-run/react';
+import {Form, Outlet, useLoaderData, type V2_MetaFunction} from '@remix-run/react';
+import {NavLink} from '~/components/Link';
 import {json, redirect, type LoaderArgs} from '@shopify/remix-oxygen';
 import React from 'react';
 import type {CustomerFragment} from 'storefrontapi.generated';
 import { Button, buttonVariants } from '~/components/ui/button';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '~/components/ui/sheet';
+import {getSeoMeta} from '~/lib/seo';
+import {localizePath, stripLocaleFromPath} from '~/lib/i18n';
+import {useSelectedLocale, useTranslation} from '~/utils';
+import type {TranslationKey} from '~/lib/translations';
+
+export const meta: V2_MetaFunction = (args) => {
+  return getSeoMeta(args, {title: 'Account', noindex: true});
+};
 
 export function shouldRevalidate() {
   return true;
@@ -12,7 +21,7 @@ export function shouldRevalidate() {
 
 export async function loader({request, context}: LoaderArgs) {
   const {session, storefront} = context;
-  const {pathname} = new URL(request.url);
+  const pathname = stripLocaleFromPath(new URL(request.url).pathname);
   const customerAccessToken = await session.get('customerAccessToken');
   const isLoggedIn = !!customerAccessToken?.accessToken;
   const isAccountHome = pathname === '/account' || pathname === '/account/';
@@ -24,7 +33,7 @@ export async function loader({request, context}: LoaderArgs) {
   if (!isLoggedIn) {
     if (isPrivateRoute || isAccountHome) {
       session.unset('customerAccessToken');
-      return redirect('/account/login', {
+      return redirect(localizePath('/account/login', context.storefront.i18n), {
         headers: {
           'Set-Cookie': await session.commit(),
         },
@@ -41,7 +50,7 @@ export async function loader({request, context}: LoaderArgs) {
   } else {
     // loggedIn, default redirect to the orders page
     if (isAccountHome) {
-      return redirect('/account/orders');
+      return redirect(localizePath('/account/orders', context.storefront.i18n));
     }
   }
 
@@ -71,7 +80,7 @@ export async function loader({request, context}: LoaderArgs) {
     // eslint-disable-next-line no-console
     console.error('There was a problem loading account', error);
     session.unset('customerAccessToken');
-    return redirect('/account/login', {
+    return redirect(localizePath('/account/login', context.storefront.i18n), {
       headers: {
         'Set-Cookie': await session.commit(),
       },
@@ -101,11 +110,12 @@ function AccountLayout({
   customer: CustomerFragment;
   children: React.ReactNode;
 }) {
+  const {t} = useTranslation();
   const heading = customer
     ? customer.firstName
-      ? `Welcome, ${customer.firstName}`
-      : `Welcome to your account.`
-    : 'Account Details';
+      ? t('account.welcomeName', {name: customer.firstName})
+      : t('account.welcome')
+    : t('account.details');
 
   return (
     <div className="container flex flex-col gap-6 p-4 mx-auto">
@@ -113,7 +123,7 @@ function AccountLayout({
       <AccountMenuAside heading={heading}>
         <Button className="flex lg:hidden">
           <Icon icon="lucide:align-justify" className="w-4 h-4 mr-2" />
-          <span>Account Menu</span>
+          <span>{t('account.menu')}</span>
         </Button>
       </AccountMenuAside>
       <div className="flex gap-6">
@@ -151,27 +161,28 @@ function AccountMenuAside({children, heading}: {children: React.ReactNode, headi
 type AccountMenuItem = {
   icon: string;
   to: string;
-  label: string;
+  label: TranslationKey;
 }
 type AccountMenuProps = {
   onNavLinkClick?: () => void;
 }
 function AccountMenu({onNavLinkClick}: AccountMenuProps) {
+  const {t} = useTranslation();
   const menu: AccountMenuItem[] = [
     {
       icon: 'lucide:box',
       to: '/account/orders',
-      label: 'Orders',
+      label: 'account.orders',
     },
     {
       icon: 'lucide:user',
       to: '/account/profile',
-      label: 'Profile',
+      label: 'account.profile',
     },
     {
       icon: 'lucide:map-pin',
       to: '/account/addresses',
-      label: 'Addresses',
+      label: 'account.addresses',
     }
   ]
   return (
@@ -188,7 +199,7 @@ function AccountMenu({onNavLinkClick}: AccountMenuProps) {
           `}
         >
           <Icon icon={item.icon} className="w-4 h-4 mr-2" />
-          {item.label}
+          {t(item.label)}
         </NavLink>
       ))}
       <Logout />
@@ -197,11 +208,18 @@ function AccountMenu({onNavLinkClick}: AccountMenuProps) {
 }
 
 function Logout() {
+  const locale = useSelectedLocale();
+  const {t} = useTranslation();
+
   return (
-    <Form className="w-full" method="POST" action="/account/logout">
+    <Form
+      className="w-full"
+      method="POST"
+      action={localizePath('/account/logout', locale)}
+    >
       <Button type="submit" variant="link" className="!text-red-400 !justify-start w-full">
         <Icon icon="lucide:log-out" className="w-4 h-4 mr-2" />
-        <span>Sign Out</span>
+        <span>{t('account.signOut')}</span>
       </Button>
     </Form>
   );
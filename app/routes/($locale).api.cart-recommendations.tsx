@@ -0,0 +1,22 @@
+import {json, type LoaderArgs} from '@shopify/remix-oxygen';
+import {getCartRecommendations} from '~/data/cart-recommendations';
+
+/**
+ * Recommendations for the products in the cart, fetched by the
+ * CartRecommendations component once the cart drawer or page renders, e.g.
+ * `/api/cart-recommendations?productId=gid://shopify/Product/1`
+ */
+export async function loader({request, context}: LoaderArgs) {
+  const {searchParams} = new URL(request.url);
+  const productIds = searchParams
+    .getAll('productId')
+    .filter((id) => id.startsWith('gid://shopify/Product/'));
+
+  const products = await getCartRecommendations(context.storefront, productIds);
+
+  // fetchers revalidate after every cart action, the browser cache answers
+  return json(
+    {products},
+    {headers: {'Cache-Control': `private, max-age=${60 * 5}`}},
+  );
+}
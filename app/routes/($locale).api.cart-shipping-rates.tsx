@@ -0,0 +1,47 @@
+import {json, type LoaderArgs} from '@shopify/remix-oxygen';
+
+/**
+ * Delivery options of the current cart, fetched by the CartShippingEstimate
+ * component once the cart has a delivery address. Rates are only computed
+ * here, the cart query shared by every page leaves them out.
+ */
+export async function loader({context}: LoaderArgs) {
+  const {cart, storefront} = context;
+  const cartId = cart.getCartId();
+
+  if (!cartId) {
+    return json({deliveryGroups: []});
+  }
+
+  const {cart: result} = await storefront.query(CART_SHIPPING_RATES_QUERY, {
+    variables: {cartId},
+    cache: storefront.CacheNone(),
+  });
+
+  return json({deliveryGroups: result?.deliveryGroups.nodes ?? []});
+}
+
+const CART_SHIPPING_RATES_QUERY = `#graphql
+  query CartShippingRates(
+    $cartId: ID!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    cart(id: $cartId) {
+      deliveryGroups(first: 10) {
+        nodes {
+          id
+          deliveryOptions {
+            handle
+            title
+            description
+            estimatedCost {
+              amount
+              currencyCode
+            }
+          }
+        }
+      }
+    }
+  }
+` as const;
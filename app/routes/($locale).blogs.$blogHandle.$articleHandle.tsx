@@ -2,9 +2,19 @@ import {json, type LoaderArgs} from '@shopify/remix-oxygen';
 import { useLoaderData, type V2_MetaFunction } from '@remix-run/react';
 import {Image} from '@shopify/hydrogen';
 import { Separator } from '~/components/ui/separator';
+import { StructuredData } from '~/components/StructuredData';
+import { articleJsonLd, breadcrumbListJsonLd } from '~/lib/structured-data';
+import { useAbsoluteUrl } from '~/utils';
+import {getSeoMeta} from '~/lib/seo';
 
-export const meta: V2_MetaFunction = ({data}) => {
-  return [{title: `Hydrogen | ${data.article.title} article`}];
+export const meta: V2_MetaFunction<typeof loader> = (args) => {
+  const article = args.data?.article;
+  return getSeoMeta(args, {
+    title: article?.seo?.title || article?.title,
+    description: article?.seo?.description,
+    image: article?.image,
+    type: 'article',
+  });
 };
 
 export async function loader({params, context}: LoaderArgs) {
@@ -24,12 +34,15 @@ export async function loader({params, context}: LoaderArgs) {
 
   const article = blog.articleByHandle;
 
-  return json({article});
+  return json({article, blog: {handle: blogHandle, title: blog.title}});
 }
 
 export default function Article() {
-  const {article} = useLoaderData<typeof loader>();
+  const {article, blog} = useLoaderData<typeof loader>();
   const {title, image, contentHtml, author} = article;
+  const url = useAbsoluteUrl();
+  const homeUrl = useAbsoluteUrl('/');
+  const blogUrl = useAbsoluteUrl(`/blogs/${blog.handle}`);
 
   const publishedDate = new Intl.DateTimeFormat('en-US', {
     year: 'numeric',
@@ -46,6 +59,21 @@ export default function Article() {
 
       <Separator />
 
+      <StructuredData
+        data={[
+          articleJsonLd({
+            article,
+            blog: {title: blog.title, url: blogUrl},
+            url,
+          }),
+          breadcrumbListJsonLd([
+            {name: 'Home', url: homeUrl},
+            {name: blog.title, url: blogUrl},
+            {name: title, url},
+          ]),
+        ]}
+      />
+
       {image && <Image data={image} sizes="90vw" loading="eager" />}
       <div
         dangerouslySetInnerHTML={{__html: contentHtml}}
@@ -64,6 +92,7 @@ const ARTICLE_QUERY = `#graphql
     $language: LanguageCode
   ) @inContext(language: $language, country: $country) {
     blog(handle: $blogHandle) {
+      title
       articleByHandle(handle: $articleHandle) {
         title
         contentHtml
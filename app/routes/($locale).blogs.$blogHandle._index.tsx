@@ -1,13 +1,19 @@
 import {json, type LoaderArgs} from '@shopify/remix-oxygen';
-import { Link, useLoaderData, type V2_MetaFunction } from '@remix-run/react';
+import { useLoaderData, type V2_MetaFunction } from '@remix-run/react';
+import { Link } from '~/components/Link';
 import {Image, Pagination, getPaginationVariables} from '@shopify/hydrogen';
 import type {ArticleItemFragment} from 'storefrontapi.generated';
 import { Card, CardContent, CardFooter } from '~/components/ui/card';
 import { buttonVariants } from '~/components/ui/button';
 import { Icon } from '@iconify/react';
+import {getSeoMeta} from '~/lib/seo';
 
-export const meta: V2_MetaFunction = ({data}) => {
-  return [{title: `Hydrogen | ${data.blog.title} blog`}];
+export const meta: V2_MetaFunction<typeof loader> = (args) => {
+  const blog = args.data?.blog;
+  return getSeoMeta(args, {
+    title: blog?.seo?.title || blog?.title,
+    description: blog?.seo?.description,
+  });
 };
 
 export const loader = async ({
@@ -1,9 +1,11 @@
 import {json, type LoaderArgs} from '@shopify/remix-oxygen';
-import { Link, useLoaderData, type V2_MetaFunction } from '@remix-run/react';
+import { useLoaderData, type V2_MetaFunction } from '@remix-run/react';
+import { Link } from '~/components/Link';
 import {Pagination, getPaginationVariables} from '@shopify/hydrogen';
+import {getSeoMeta} from '~/lib/seo';
 
-export const meta: V2_MetaFunction = () => {
-  return [{title: `Hydrogen | Blogs`}];
+export const meta: V2_MetaFunction = (args) => {
+  return getSeoMeta(args, {title: 'Blogs'});
 };
 
 export const loader = async ({request, context: {storefront}}: LoaderArgs) => {
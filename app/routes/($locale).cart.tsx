@@ -0,0 +1,257 @@
+import { Await, useMatches, type V2_MetaFunction } from '@remix-run/react';
+import {Suspense} from 'react';
+import type {CartQueryData} from '@shopify/hydrogen';
+import {CartForm} from '@shopify/hydrogen';
+import {
+  type ActionArgs,
+  type AppLoadContext,
+  json,
+} from '@shopify/remix-oxygen';
+import type {CountryCode} from '@shopify/hydrogen/storefront-api-types';
+import type {CartApiQueryFragment} from 'storefrontapi.generated';
+import {CartMain} from '~/components/Cart';
+import {getSeoMeta} from '~/lib/seo';
+import {getCartGoals, syncCartGoalGifts} from '~/data/cart-goals';
+import {
+  MOVE_TO_CART_ACTION,
+  REMOVE_SAVED_ACTION,
+  SAVE_FOR_LATER_ACTION,
+  getSavedLines,
+  removeSavedLine,
+  saveLine,
+  toSavedLine,
+} from '~/data/saved-for-later';
+import {SHARE_CART_ACTION, createSharedCartPath} from '~/data/shared-cart';
+import {localizePath} from '~/lib/i18n';
+import {useTranslation} from '~/utils';
+
+export const meta: V2_MetaFunction = (args) => {
+  return getSeoMeta(args, {title: 'Cart', noindex: true});
+};
+
+export async function action({request, context}: ActionArgs) {
+  const {session, cart, storefront, env} = context;
+
+  const [formData, customerAccessToken] = await Promise.all([
+    request.formData(),
+    session.get('customerAccessToken'),
+  ]);
+
+  const {action, inputs} = CartForm.getFormInput(formData);
+
+  if (!action) {
+    throw new Error('No action provided');
+  }
+
+  let status = 200;
+  let result: CartQueryData;
+  let sessionUpdated = false;
+  let subtotalChanged = true;
+
+  switch (action) {
+    case CartForm.ACTIONS.LinesAdd:
+      result = await cart.addLines(inputs.lines);
+      break;
+    case CartForm.ACTIONS.LinesUpdate:
+      result = await cart.updateLines(inputs.lines);
+      break;
+    case CartForm.ACTIONS.LinesRemove:
+      result = await cart.removeLines(inputs.lineIds);
+      break;
+    case CartForm.ACTIONS.DiscountCodesUpdate: {
+      const formDiscountCode = inputs.discountCode;
+
+      // User inputted discount code
+      const discountCodes = (
+        formDiscountCode ? [formDiscountCode] : []
+      ) as string[];
+
+      // Combine discount codes already applied on cart
+      discountCodes.push(...inputs.discountCodes);
+
+      result = await cart.updateDiscountCodes([...new Set(discountCodes)]);
+      break;
+    }
+    case CartForm.ACTIONS.BuyerIdentityUpdate: {
+      result = await cart.updateBuyerIdentity({
+        ...inputs.buyerIdentity,
+        customerAccessToken: customerAccessToken?.accessToken,
+      });
+      // remember the country for the unprefixed storefront paths. It sets
+      // the storefront locale on every request, so only countries the shop
+      // sells to are kept.
+      const {countryCode} = inputs.buyerIdentity;
+      if (countryCode && (await isAvailableCountry(storefront, countryCode))) {
+        session.set('countryCode', countryCode);
+        sessionUpdated = true;
+      }
+      // only a new country changes the subtotal, through its currency
+      subtotalChanged =
+        Boolean(countryCode) && countryCode !== storefront.i18n.country;
+      break;
+    }
+    case CartForm.ACTIONS.NoteUpdate:
+      result = await cart.updateNote(String(inputs.note ?? ''));
+      subtotalChanged = false;
+      break;
+    case CartForm.ACTIONS.AttributesUpdateInput:
+      // replaces every cart attribute, forms send the full list
+      result = await cart.updateAttributes(inputs.attributes);
+      subtotalChanged = false;
+      break;
+    case SAVE_FOR_LATER_ACTION: {
+      // the saved line is read from the stored cart, the form only names it
+      const current = (await cart.get()) as CartApiQueryFragment | null;
+      const line = current?.lines.nodes.find(({id}) => id === inputs.lineId);
+      if (!line) {
+        return json(
+          {
+            cart: null,
+            errors: [{message: 'Cart line not found'}],
+            analytics: {},
+          },
+          {status: 404},
+        );
+      }
+
+      result = await cart.removeLines([line.id]);
+      if (!result.errors?.length) {
+        saveLine(session, toSavedLine(line));
+        sessionUpdated = true;
+      }
+      break;
+    }
+    case MOVE_TO_CART_ACTION: {
+      const saved = getSavedLines(session).find(
+        ({id}) => id === inputs.savedLineId,
+      );
+      if (!saved) {
+        return json(
+          {
+            cart: null,
+            errors: [{message: 'Saved item not found'}],
+            analytics: {},
+          },
+          {status: 404},
+        );
+      }
+
+      const {id, ...line} = saved;
+      result = await cart.addLines([line]);
+      if (!result.errors?.length) {
+        removeSavedLine(session, id);
+        sessionUpdated = true;
+      }
+      break;
+    }
+    case REMOVE_SAVED_ACTION: {
+      // only the session changes, the cart is left as is
+      removeSavedLine(session, String(inputs.savedLineId));
+      return json(
+        {cart: null, errors: [], analytics: {}},
+        {headers: {'Set-Cookie': await session.commit()}},
+      );
+    }
+    case SHARE_CART_ACTION: {
+      // links are made from the stored cart rather than the form inputs
+      const current = (await cart.get()) as CartApiQueryFragment | null;
+      if (!current?.totalQuantity) {
+        return json(
+          {cart: null, errors: [{message: 'Cart is empty'}], analytics: {}},
+          {status: 400},
+        );
+      }
+
+      const path = await createSharedCartPath(current, env.SESSION_SECRET);
+      return json({
+        cart: null,
+        errors: [],
+        analytics: {},
+        shareUrl: new URL(localizePath(path, storefront.i18n), request.url)
+          .href,
+      });
+    }
+    default:
+      throw new Error(`${action} cart action is not defined`);
+  }
+
+  // add or remove free gifts when the cart crossed a goal threshold, the
+  // response keeps the shopper's own errors
+  if (subtotalChanged && result.cart?.id) {
+    await syncCartGoalGifts(
+      context,
+      result.cart.id,
+      await getCartGoals(storefront),
+    );
+  }
+
+  const cartId = result.cart.id;
+  const headers = cart.setCartId(result.cart.id);
+  const {cart: cartResult, errors} = result;
+
+  if (sessionUpdated) {
+    headers.append('Set-Cookie', await session.commit());
+  }
+
+  const redirectTo = formData.get('redirectTo') ?? null;
+  if (typeof redirectTo === 'string') {
+    status = 303;
+    headers.set('Location', redirectTo);
+  }
+
+  return json(
+    {
+      cart: cartResult,
+      errors,
+      analytics: {
+        cartId,
+      },
+    },
+    {status, headers},
+  );
+}
+
+async function isAvailableCountry(
+  storefront: AppLoadContext['storefront'],
+  countryCode: CountryCode,
+) {
+  const {localization} = await storefront.query(AVAILABLE_COUNTRIES_QUERY, {
+    cache: storefront.CacheLong(),
+  });
+
+  return localization.availableCountries.some(
+    ({isoCode}) => isoCode === countryCode,
+  );
+}
+
+export default function Cart() {
+  const [root] = useMatches();
+  const cart = root.data?.cart as Promise<CartApiQueryFragment | null>;
+  const {t} = useTranslation();
+
+  return (
+    <div className="container flex flex-col gap-4 p-4 mx-auto">
+      <h1>{t('cart.title')}</h1>
+      <Suspense fallback={<p>{t('cart.loading')}</p>}>
+        <Await
+          errorElement={<div>{t('common.errorOccurred')}</div>}
+          resolve={cart}
+        >
+          {(cart) => {
+            return <CartMain layout="page" cart={cart} />;
+          }}
+        </Await>
+      </Suspense>
+    </div>
+  );
+}
+
+const AVAILABLE_COUNTRIES_QUERY = `#graphql
+  query AvailableCountries {
+    localization {
+      availableCountries {
+        isoCode
+      }
+    }
+  }
+` as const;
@@ -0,0 +1,229 @@
+import {
+  json,
+  redirect,
+  type ActionArgs,
+  type LoaderArgs,
+} from '@shopify/remix-oxygen';
+import {
+  Form,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+  type V2_MetaFunction,
+} from '@remix-run/react';
+import {Image, Money} from '@shopify/hydrogen';
+import type {CartApiQueryFragment} from 'storefrontapi.generated';
+import {Link} from '~/components/Link';
+import {Badge} from '~/components/ui/badge';
+import {Button} from '~/components/ui/button';
+import {Card, CardContent} from '~/components/ui/card';
+import {getCartGoals, syncCartGoalGifts} from '~/data/cart-goals';
+import {
+  getSharedCartItems,
+  parseSharedCartPath,
+  type SharedCartItem,
+} from '~/data/shared-cart';
+import {localizePath} from '~/lib/i18n';
+import {getSeoMeta} from '~/lib/seo';
+import {useSelectedLocale, useTranslation, useVariantUrl} from '~/utils';
+
+export const meta: V2_MetaFunction = (args) => {
+  return getSeoMeta(args, {title: 'Shared cart', noindex: true});
+};
+
+/**
+ * Previews a cart shared with `createSharedCartPath`. Unlike the
+ * `/cart/<lines>` permalinks, the recipient adds the lines to their own cart
+ * instead of being sent to checkout.
+ * ```js
+ * /cart/shared/41007289663544:1,41007289696312:2:1234?discount=HYDROBOARD&expires=1700000000&signature=...
+ *
+ * ```
+ */
+export async function loader({request, context, params}: LoaderArgs) {
+  const {storefront, env} = context;
+  const {searchParams} = new URL(request.url);
+
+  const sharedCart = await parseSharedCartPath(
+    params.lines ?? '',
+    searchParams,
+    env.SESSION_SECRET,
+  );
+  const items = await getSharedCartItems(storefront, sharedCart.lines);
+
+  return json({
+    items,
+    discountCodes: sharedCart.discountCodes,
+    expiresAt: sharedCart.expiresAt,
+  });
+}
+
+export async function action({request, context, params}: ActionArgs) {
+  const {cart, storefront, env} = context;
+  const {searchParams} = new URL(request.url);
+
+  // read the signed link again, the form only confirms it
+  const sharedCart = await parseSharedCartPath(
+    params.lines ?? '',
+    searchParams,
+    env.SESSION_SECRET,
+  );
+  const items = await getSharedCartItems(storefront, sharedCart.lines);
+  const lines = items
+    .filter(({available}) => available)
+    .map(({variant, available, ...line}) => line);
+
+  if (!lines.length) {
+    throw new Response('None of the items are available', {status: 410});
+  }
+
+  let result = await cart.addLines(lines);
+  const cartId = result.cart?.id;
+
+  if (cartId && !result.errors?.length && sharedCart.discountCodes.length) {
+    const current = (await cart.get({cartId})) as CartApiQueryFragment | null;
+    const discountCodes = [
+      ...(current?.discountCodes.map(({code}) => code) ?? []),
+      ...sharedCart.discountCodes,
+    ];
+    result = await cart.updateDiscountCodes([...new Set(discountCodes)], {
+      cartId,
+    });
+  }
+
+  // the cart's user errors, e.g. a line over its quantity limit, stay on
+  // this page rather than getting lost on the way to the cart
+  if (!cartId || result.errors?.length) {
+    return json(
+      {errors: result.errors ?? []},
+      {status: 400, headers: cartId ? cart.setCartId(cartId) : undefined},
+    );
+  }
+
+  // add the free gifts of the goals the recipient's cart now reaches
+  await syncCartGoalGifts(context, cartId, await getCartGoals(storefront));
+
+  return redirect(localizePath('/cart', storefront.i18n), {
+    status: 303,
+    headers: cart.setCartId(cartId),
+  });
+}
+
+export default function SharedCart() {
+  const {items, discountCodes, expiresAt} = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const {t} = useTranslation();
+  const selectedLocale = useSelectedLocale();
+  const navigation = useNavigation();
+  const unavailableCount = items.filter(({available}) => !available).length;
+  const expiresOn = new Intl.DateTimeFormat(
+    `${selectedLocale.language}-${selectedLocale.country}`,
+    {dateStyle: 'long'},
+  ).format(expiresAt * 1000);
+
+  return (
+    <div className="container flex flex-col gap-4 p-4 mx-auto">
+      <h1>{t('sharedCart.title')}</h1>
+      <p className="text-muted-foreground">
+        {t('sharedCart.description', {date: expiresOn})}
+      </p>
+      <div className="flex flex-col gap-3">
+        {items.map((item) => (
+          <SharedCartLine key={item.merchandiseId} item={item} />
+        ))}
+      </div>
+      {discountCodes.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span>{t('cart.discounts')}</span>
+          {discountCodes.map((code) => (
+            <Badge key={code} variant="secondary">
+              {code}
+            </Badge>
+          ))}
+        </div>
+      )}
+      {unavailableCount > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {t('sharedCart.unavailableNotice', {count: unavailableCount})}
+        </p>
+      )}
+      {actionData?.errors.length ? (
+        <p className="text-sm text-destructive" role="alert">
+          {actionData.errors
+            .map(({message}) => message || t('cart.error'))
+            .join(' ')}
+        </p>
+      ) : null}
+      <Form method="post">
+        <Button
+          disabled={
+            unavailableCount === items.length || navigation.state !== 'idle'
+          }
+          size="lg"
+          type="submit"
+        >
+          {t('sharedCart.addToCart')}
+        </Button>
+      </Form>
+    </div>
+  );
+}
+
+function SharedCartLine({item}: {item: SharedCartItem}) {
+  const {t} = useTranslation();
+  const {variant} = item;
+  const url = useVariantUrl(
+    variant?.product.handle ?? '',
+    variant?.selectedOptions ?? [],
+  );
+
+  return (
+    <Card className={item.available ? undefined : 'opacity-60'}>
+      <CardContent className="flex items-start gap-3 pt-4">
+        {variant?.image && (
+          <Image
+            alt={variant.title}
+            aspectRatio="1/1"
+            data={variant.image}
+            height={64}
+            loading="lazy"
+            width={64}
+            className="flex-shrink-0"
+          />
+        )}
+        <div className="flex flex-col gap-1">
+          {variant ? (
+            <Link prefetch="intent" to={url}>
+              <h4>{variant.product.title}</h4>
+            </Link>
+          ) : (
+            <h4>{t('sharedCart.deletedItem')}</h4>
+          )}
+          {variant && (
+            <Money as="span" withoutTrailingZeros data={variant.price} />
+          )}
+          <ul className="m-0 text-xs list-none text-muted-foreground">
+            {variant?.selectedOptions.map((option) => (
+              <li key={option.name} className="m-0">
+                {option.name}: {option.value}
+              </li>
+            ))}
+            {item.attributes?.map(({key, value}) => (
+              <li key={key} className="m-0">
+                {key}: {value}
+              </li>
+            ))}
+            <li className="m-0">
+              {t('cart.quantity', {quantity: item.quantity})}
+            </li>
+          </ul>
+          {!item.available && (
+            <Badge className="self-start" variant="outline">
+              {t('sharedCart.unavailable')}
+            </Badge>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
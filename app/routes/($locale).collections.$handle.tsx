@@ -1,25 +1,34 @@
 import {json, redirect, type LoaderArgs} from '@shopify/remix-oxygen';
-import { useLoaderData, Link, type V2_MetaFunction } from '@remix-run/react';
+import { useLoaderData, type V2_MetaFunction } from '@remix-run/react';
 import {
   Pagination,
   getPaginationVariables,
-  Image,
-  Money,
 } from '@shopify/hydrogen';
 import type {
   Filter,
   ProductCollectionSortKeys,
 } from '@shopify/hydrogen/storefront-api-types';
 import type {ProductCardFragment} from 'storefrontapi.generated';
-import {useVariantUrl} from '~/utils';
 // import SortFilter from '~/components/SortFilter';
 import { buttonVariants } from '~/components/ui/button';
 import { Icon } from '@iconify/react';
 import { AppliedFilter, SortFilter, SortParam } from '~/components/SortFilter';
 import { PRODUCT_CARD_FRAGMENT } from '~/data/fragments';
+import { getSwatches } from '~/data/swatches';
+import { ProductCard } from '~/components/ProductCard';
+import { StructuredData } from '~/components/StructuredData';
+import { breadcrumbListJsonLd, collectionPageJsonLd } from '~/lib/structured-data';
+import { useAbsoluteUrl } from '~/utils';
+import {getSeoMeta} from '~/lib/seo';
+import {localizePath} from '~/lib/i18n';
 
-export const meta: V2_MetaFunction = ({data}) => {
-  return [{title: `Hydrogen | ${data.collection.title} Collection`}];
+export const meta: V2_MetaFunction<typeof loader> = (args) => {
+  const collection = args.data?.collection;
+  return getSeoMeta(args, {
+    title: collection?.seo?.title || collection?.title,
+    description: collection?.seo?.description || collection?.description,
+    image: collection?.image,
+  });
 };
 
 type VariantFilterParam = Record<string, string | boolean>;
@@ -39,7 +48,7 @@ export async function loader({request, params, context}: LoaderArgs) {
   });
 
   if (!handle) {
-    return redirect('/collections');
+    return redirect(localizePath('/collections', context.storefront.i18n));
   }
 
   const searchParams = new URL(request.url).searchParams;
@@ -96,9 +105,8 @@ export async function loader({request, params, context}: LoaderArgs) {
     });
   }
 
-  const { collection } = await context.storefront.query(
-    COLLECTION_QUERY,
-    {
+  const [{ collection }, swatches] = await Promise.all([
+    context.storefront.query(COLLECTION_QUERY, {
       variables: {
         ...paginationVariables,
         handle,
@@ -108,8 +116,9 @@ export async function loader({request, params, context}: LoaderArgs) {
         country: context.storefront.i18n.country,
         language: context.storefront.i18n.language,
       },
-    },
-  );
+    }),
+    getSwatches(context.storefront),
+  ]);
 
   if (!collection) {
     throw new Response(`Collection ${handle} not found`, {
@@ -119,11 +128,15 @@ export async function loader({request, params, context}: LoaderArgs) {
   return json({
     collection,
     appliedFilters,
+    swatches,
   });
 }
 
 export default function Collection() {
-  const { collection, appliedFilters } = useLoaderData<typeof loader>()
+  const { collection, appliedFilters, swatches } = useLoaderData<typeof loader>()
+  const url = useAbsoluteUrl(`/collections/${collection.handle}`)
+  const homeUrl = useAbsoluteUrl('/')
+  const collectionsUrl = useAbsoluteUrl('/collections')
 
   return (
     <div className="container flex flex-col gap-4 p-4 mx-auto">
@@ -133,9 +146,25 @@ export default function Collection() {
         <p className="collection-description">{collection.description}</p>
       )}
 
+      <StructuredData
+        data={[
+          collectionPageJsonLd({
+            collection,
+            products: collection.products.nodes,
+            url,
+          }),
+          breadcrumbListJsonLd([
+            { name: 'Home', url: homeUrl },
+            { name: 'Collections', url: collectionsUrl },
+            { name: collection.title, url },
+          ]),
+        ]}
+      />
+
       <SortFilter
         filters={collection.products.filters as Filter[]}
         appliedFilters={appliedFilters}
+        swatches={swatches}
       >
         <Pagination connection={collection.products}>
           {({nodes, isLoading, PreviousLink, NextLink}) => (
@@ -183,40 +212,6 @@ function ProductsGrid({products}: {products: ProductCardFragment[]}) {
   );
 }
 
-function ProductCard({
-  product,
-  loading,
-}: {
-  product: ProductCardFragment;
-  loading?: 'eager' | 'lazy';
-}) {
-  const variant = product.variants.nodes[0];
-  const variantUrl = useVariantUrl(product.handle, variant.selectedOptions);
-  return (
-    <Link
-      className="flex flex-col gap-2"
-      key={product.id}
-      prefetch="intent"
-      to={variantUrl}
-    >
-      {product.featuredImage && (
-        <Image
-          alt={product.featuredImage.altText || product.title}
-          aspectRatio='1/1'
-          data={product.featuredImage}
-          loading={loading}
-          sizes="(min-width: 45em) 400px, 100vw"
-          className="object-cover w-full h-full"
-        />
-      )}
-      <div>
-        <h4>{product.title}</h4>
-        <Money data={product.priceRange.minVariantPrice} className="text-sm" />
-      </div>
-    </Link>
-  );
-}
-
 // NOTE: https://shopify.dev/docs/api/storefront/2022-04/objects/collection
 const COLLECTION_QUERY = `#graphql
   query CollectionDetails(
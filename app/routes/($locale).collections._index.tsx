@@ -1,7 +1,13 @@
-import {useLoaderData, Link} from '@remix-run/react';
+import {useLoaderData, type V2_MetaFunction} from '@remix-run/react';
+import {Link} from '~/components/Link';
 import {json, type LoaderArgs} from '@shopify/remix-oxygen';
 import {Pagination, getPaginationVariables, Image} from '@shopify/hydrogen';
 import type {CollectionFragment} from 'storefrontapi.generated';
+import {getSeoMeta} from '~/lib/seo';
+
+export const meta: V2_MetaFunction = (args) => {
+  return getSeoMeta(args, {title: 'Collections'});
+};
 
 export async function loader({context, request}: LoaderArgs) {
   const paginationVariables = getPaginationVariables(request, {
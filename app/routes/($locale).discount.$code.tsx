@@ -1,4 +1,5 @@
 import { redirect, type LoaderArgs } from '@shopify/remix-oxygen'
+import { localizePath } from '~/lib/i18n'
 
 /**
  * Automatically applies a discount found on the url
@@ -28,7 +29,10 @@ export async function loader({ request, context, params }: LoaderArgs) {
   searchParams.delete('redirect')
   searchParams.delete('return_to')
 
-  const redirectUrl = `${redirectParam}?${searchParams}`
+  const redirectUrl = `${localizePath(
+    redirectParam,
+    context.storefront.i18n,
+  )}?${searchParams}`
 
   if (!code) {
     return redirect(redirectUrl)
@@ -1,8 +1,13 @@
 import {json, type LoaderArgs} from '@shopify/remix-oxygen';
 import { useLoaderData, type V2_MetaFunction } from '@remix-run/react';
+import {getSeoMeta} from '~/lib/seo';
 
-export const meta: V2_MetaFunction = ({data}) => {
-  return [{title: `Hydrogen | ${data.page.title}`}];
+export const meta: V2_MetaFunction<typeof loader> = (args) => {
+  const page = args.data?.page;
+  return getSeoMeta(args, {
+    title: page?.seo?.title || page?.title,
+    description: page?.seo?.description,
+  });
 };
 
 export async function loader({params, context}: LoaderArgs) {
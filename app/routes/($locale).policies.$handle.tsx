@@ -1,15 +1,21 @@
 import {json, type LoaderArgs} from '@shopify/remix-oxygen';
-import { Link, useLoaderData, type V2_MetaFunction } from '@remix-run/react';
+import { useLoaderData, type V2_MetaFunction } from '@remix-run/react';
+import { Link } from '~/components/Link';
 import {type Shop} from '@shopify/hydrogen/storefront-api-types';
 import { buttonVariants } from '~/components/ui/button';
+import {getSeoMeta} from '~/lib/seo';
 
 type SelectedPolicies = keyof Pick<
   Shop,
   'privacyPolicy' | 'shippingPolicy' | 'termsOfService' | 'refundPolicy'
 >;
 
-export const meta: V2_MetaFunction = ({data}) => {
-  return [{title: `Hydrogen | ${data.policy.title}`}];
+export const meta: V2_MetaFunction<typeof loader> = (args) => {
+  const policy = args.data?.policy;
+  return getSeoMeta(args, {
+    title: policy?.title,
+    description: policy?.body,
+  });
 };
 
 export async function loader({params, context}: LoaderArgs) {
@@ -1,5 +1,11 @@
 import {json, type LoaderArgs} from '@shopify/remix-oxygen';
-import {useLoaderData, Link} from '@remix-run/react';
+import {useLoaderData, type V2_MetaFunction} from '@remix-run/react';
+import {Link} from '~/components/Link';
+import {getSeoMeta} from '~/lib/seo';
+
+export const meta: V2_MetaFunction = (args) => {
+  return getSeoMeta(args, {title: 'Policies'});
+};
 
 export async function loader({context}: LoaderArgs) {
   const data = await context.storefront.query(POLICIES_QUERY);
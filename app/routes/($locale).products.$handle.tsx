@@ -0,0 +1,1292 @@
+import {Suspense, useState} from 'react';
+import {defer, redirect, type LoaderArgs} from '@shopify/remix-oxygen';
+import {
+  Await,
+  useLoaderData,
+  useLocation,
+  useSearchParams,
+  type V2_MetaFunction,
+  type FetcherWithComponents,
+} from '@remix-run/react';
+import {Link} from '~/components/Link';
+import type {
+  ProductFragment,
+  ProductVariantsQuery,
+  ProductVariantFragment,
+  ProductRecommendationsQuery,
+  SellingPlanFragment,
+} from 'storefrontapi.generated';
+import { Button, buttonVariants } from '~/components/ui/button'
+import {
+  Money,
+  useMoney,
+  VariantSelector,
+  type VariantOption,
+  getSelectedProductOptions,
+  CartForm,
+} from '@shopify/hydrogen';
+import type {
+  CartLineInput,
+  MoneyV2,
+  SelectedOption,
+} from '@shopify/hydrogen/storefront-api-types';
+import {
+  getVariantUrl,
+  useAbsoluteUrl,
+  useLocalizePath,
+  useTranslation,
+} from '~/utils';
+import { Icon } from '@iconify/react';
+import { Badge, BadgeProps } from '~/components/ui/badge';
+import { ProductGallery } from '~/components/ProductGallery';
+import { MEDIA_FRAGMENT, PRODUCT_CARD_FRAGMENT } from '~/data/fragments';
+import { ProductCarousel } from '~/components/ProductCarousel';
+import { StructuredData } from '~/components/StructuredData';
+import { breadcrumbListJsonLd, productJsonLd } from '~/lib/structured-data';
+import {
+  QuantitySelector,
+  clampQuantity,
+  getQuantityRule,
+  type QuantityRule,
+} from '~/components/QuantitySelector';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '~/components/ui/table';
+import { Swatch } from '~/components/Swatch';
+import {
+  getSwatch,
+  getSwatches,
+  isSwatchOption,
+  type SwatchMap,
+} from '~/data/swatches';
+import {getSeoMeta, isTrackingSearchParam} from '~/lib/seo';
+import {OPTIMISTIC_PRICES_INPUT, type OptimisticPrices} from '~/lib/cart';
+import {CartFormErrors} from '~/components/Cart';
+import {Input} from '~/components/ui/input';
+import {Label} from '~/components/ui/label';
+import {StoreAvailability} from '~/components/StoreAvailability';
+
+export const meta: V2_MetaFunction<typeof loader> = (args) => {
+  const product = args.data?.product;
+  const image =
+    product?.selectedVariant?.image ??
+    product?.media.nodes.find((media) => media.previewImage)?.previewImage;
+  return getSeoMeta(args, {
+    title: product?.seo.title || product?.title,
+    description: product?.seo.description || product?.description,
+    image,
+    path: product ? `/products/${product.handle}` : undefined,
+    type: 'product',
+  });
+};
+
+/**
+ * Search param holding the id of the selected selling plan
+ */
+const SELLING_PLAN_PARAM = 'selling_plan';
+
+export async function loader({params, request, context}: LoaderArgs) {
+  const {handle} = params;
+  const {storefront} = context;
+
+  const selectedOptions = getSelectedProductOptions(request).filter(
+    (option) =>
+      // Filter out Shopify predictive search and campaign tracking params
+      !isTrackingSearchParam(option.name) &&
+      // Filter out the selected purchase option
+      option.name !== SELLING_PLAN_PARAM,
+  );
+
+  if (!handle) {
+    throw new Error('Expected product handle to be defined');
+  }
+
+  // await the query for the critical product data
+  const [{product}, swatches] = await Promise.all([
+    storefront.query(PRODUCT_QUERY, {
+      variables: {handle, selectedOptions},
+    }),
+    getSwatches(storefront),
+  ]);
+
+  if (!product?.id) {
+    throw new Response(null, {status: 404});
+  }
+
+  const firstVariant = product.variants.nodes[0];
+  const firstVariantIsDefault = Boolean(
+    firstVariant.selectedOptions.find(
+      (option: SelectedOption) =>
+        option.name === 'Title' && option.value === 'Default Title',
+    ),
+  );
+
+  if (firstVariantIsDefault) {
+    product.selectedVariant = firstVariant;
+  } else {
+    // if no selected variant was returned from the selected options,
+    // we redirect to the first variant's url with it's selected options applied
+    if (!product.selectedVariant) {
+      return redirectToFirstVariant({product, request});
+    }
+  }
+
+  // In order to show which variants are available in the UI, we need to query
+  // all of them. But there might be a *lot*, so instead separate the variants
+  // into it's own separate query that is deferred. So there's a brief moment
+  // where variant options might show as available when they're not, but after
+  // this deferred query resolves, the UI will update.
+  const variants = storefront.query(VARIANTS_QUERY, {
+    variables: { handle },
+  });
+
+  // Recommendations are below the fold, so they're deferred as well
+  const recommendations = storefront.query(RECOMMENDATIONS_QUERY, {
+    variables: {productId: product.id},
+  });
+
+  const selectedSellingPlan = getSelectedSellingPlan({product, request});
+
+  return defer({
+    product,
+    variants,
+    swatches,
+    selectedSellingPlan,
+    recommendations,
+  });
+}
+
+/**
+ * Resolves the `?selling_plan=` search param to one of the product's selling
+ * plans. Products that can't be bought without a subscription fall back to
+ * their first plan.
+ */
+function getSelectedSellingPlan({
+  product,
+  request,
+}: {
+  product: ProductFragment;
+  request: Request;
+}) {
+  const sellingPlanId = new URL(request.url).searchParams.get(
+    SELLING_PLAN_PARAM,
+  );
+  const sellingPlans = product.sellingPlanGroups.nodes.flatMap(
+    (group) => group.sellingPlans.nodes,
+  );
+
+  return (
+    sellingPlans.find((plan) => plan.id === sellingPlanId) ??
+    (product.requiresSellingPlan ? sellingPlans[0] ?? null : null)
+  );
+}
+
+function redirectToFirstVariant({
+  product,
+  request,
+}: {
+  product: ProductFragment;
+  request: Request;
+}) {
+  const url = new URL(request.url);
+  const firstVariant = product.variants.nodes[0];
+
+  throw redirect(
+    getVariantUrl({
+      pathname: url.pathname,
+      handle: product.handle,
+      selectedOptions: firstVariant.selectedOptions,
+      searchParams: new URLSearchParams(url.search),
+    }),
+    {
+      status: 302,
+    },
+  );
+}
+
+export default function Product() {
+  const {product, variants, swatches, selectedSellingPlan, recommendations} =
+    useLoaderData<typeof loader>();
+  const {selectedVariant} = product;
+  return (
+    <>
+      <div className="container grid items-start p-4 mx-auto md:gap-16 md:grid-cols-2">
+        <ProductGallery
+          media={product.media.nodes}
+          selectedImage={selectedVariant?.image}
+        />
+        <ProductMain
+          selectedVariant={selectedVariant}
+          product={product}
+          variants={variants}
+          swatches={swatches}
+          selectedSellingPlan={selectedSellingPlan}
+        />
+      </div>
+      <ProductRecommendations
+        productId={product.id}
+        recommendations={recommendations}
+      />
+      <ProductStructuredData product={product} variants={variants} />
+    </>
+  );
+}
+
+function ProductStructuredData({
+  product,
+  variants,
+}: {
+  product: ProductFragment;
+  variants: Promise<ProductVariantsQuery>;
+}) {
+  const url = useAbsoluteUrl(`/products/${product.handle}`);
+  const homeUrl = useAbsoluteUrl('/');
+  const {t} = useTranslation();
+  const breadcrumbs = breadcrumbListJsonLd([
+    {name: t('common.home'), url: homeUrl},
+    {name: product.title, url},
+  ]);
+  const fallbackVariants = product.selectedVariant
+    ? [product.selectedVariant]
+    : product.variants.nodes;
+
+  return (
+    <Suspense
+      fallback={
+        <StructuredData
+          data={[
+            productJsonLd({product, variants: fallbackVariants, url}),
+            breadcrumbs,
+          ]}
+        />
+      }
+    >
+      <Await resolve={variants} errorElement={null}>
+        {(data) => (
+          <StructuredData
+            data={[
+              productJsonLd({
+                product,
+                variants: data.product?.variants.nodes || fallbackVariants,
+                url,
+              }),
+              breadcrumbs,
+            ]}
+          />
+        )}
+      </Await>
+    </Suspense>
+  );
+}
+
+function ProductRecommendations({
+  productId,
+  recommendations,
+}: {
+  productId: string;
+  recommendations: Promise<ProductRecommendationsQuery>;
+}) {
+  const {t} = useTranslation();
+  return (
+    <Suspense>
+      <Await resolve={recommendations}>
+        {({complementary, related}) => {
+          const complementaryProducts = (complementary || []).filter(
+            (product) => product.id !== productId,
+          );
+          const complementaryIds = complementaryProducts.map(({id}) => id);
+          const relatedProducts = (related || []).filter(
+            (product) =>
+              product.id !== productId &&
+              !complementaryIds.includes(product.id),
+          );
+
+          if (!complementaryProducts.length && !relatedProducts.length) {
+            return null;
+          }
+
+          return (
+            <div className="container flex flex-col gap-8 p-4 mx-auto">
+              <ProductCarousel
+                products={complementaryProducts}
+                title={t('product.completeTheLook')}
+              />
+              <ProductCarousel
+                products={relatedProducts}
+                title={t('product.youMayAlsoLike')}
+              />
+            </div>
+          );
+        }}
+      </Await>
+    </Suspense>
+  );
+}
+
+function ProductMain({
+  selectedVariant,
+  product,
+  variants,
+  swatches,
+  selectedSellingPlan,
+}: {
+  product: ProductFragment;
+  selectedVariant: ProductFragment['selectedVariant'];
+  variants: Promise<ProductVariantsQuery>;
+  swatches: SwatchMap;
+  selectedSellingPlan: SellingPlanFragment | null;
+}) {
+  const {title, descriptionHtml} = product;
+  const {t} = useTranslation();
+  return (
+    <div className="flex flex-col gap-6 py-6">
+      <div className="flex flex-col gap-2">
+        <ProductBadges selectedVariant={selectedVariant} />
+        <h1>{title}</h1>
+        <ProductPrice
+          selectedVariant={selectedVariant}
+          selectedSellingPlan={selectedSellingPlan}
+        />
+      </div>
+      <Suspense
+        fallback={
+          <ProductForm
+            product={product}
+            selectedVariant={selectedVariant}
+            variants={[]}
+            swatches={swatches}
+            selectedSellingPlan={selectedSellingPlan}
+          />
+        }
+      >
+        <Await
+          errorElement={t('product.variantsError')}
+          resolve={variants}
+        >
+          {(data) => (
+            <ProductForm
+              product={product}
+              selectedVariant={selectedVariant}
+              variants={data.product?.variants.nodes || []}
+              swatches={swatches}
+              selectedSellingPlan={selectedSellingPlan}
+            />
+          )}
+        </Await>
+      </Suspense>
+      <div className="prose-sm prose-neutral prose-invert" dangerouslySetInnerHTML={{__html: descriptionHtml}} />
+    </div>
+  );
+}
+
+function ProductBadges({
+  selectedVariant
+}: {
+  selectedVariant?: ProductVariantFragment | null}
+) {
+  const {t} = useTranslation()
+  const badges: {
+    label: string;
+    variant: BadgeProps['variant'];
+  }[] = []
+
+  if (selectedVariant?.compareAtPrice) {
+    badges.push({ label: t('product.sale'), variant: 'destructive' })
+  }
+  if (!selectedVariant?.availableForSale) {
+    badges.push({ label: t('product.soldOut'), variant: 'outline' })
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {badges.map(({ label, variant }) => (
+        <Badge key={label} variant={variant}>
+          {label}
+        </Badge>
+      ))}
+    </div>
+  )
+}
+
+function ProductPrice({
+  selectedVariant,
+  selectedSellingPlan,
+}: {
+  selectedVariant: ProductFragment['selectedVariant'];
+  selectedSellingPlan?: SellingPlanFragment | null;
+}) {
+  const {t} = useTranslation();
+  const allocation = getSellingPlanAllocation(
+    selectedVariant,
+    selectedSellingPlan,
+  );
+  const adjustment = allocation?.priceAdjustments[0];
+
+  if (selectedVariant && selectedSellingPlan && adjustment) {
+    const hasDiscount =
+      Number(adjustment.price.amount) < Number(selectedVariant.price.amount);
+    return (
+      <div className="product-price">
+        <div className="flex items-center gap-2">
+          <Money data={adjustment.price} />
+          {hasDiscount && (
+            <span className="line-through text-muted-foreground">
+              <Money data={selectedVariant.price} />
+            </span>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {selectedSellingPlan.name}
+          {adjustment.perDeliveryPrice.amount !== adjustment.price.amount && (
+            <>
+              {' · '}
+              <Money as="span" data={adjustment.perDeliveryPrice} />{' '}
+              {t('cart.perDelivery')}
+            </>
+          )}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="product-price">
+      {selectedVariant?.compareAtPrice ? (
+        <div className="flex items-center gap-2">
+          {selectedVariant ? <Money data={selectedVariant.price} /> : null}
+          <span className="line-through text-muted-foreground">
+            <Money data={selectedVariant.compareAtPrice} />
+          </span>
+        </div>
+      ) : (
+        selectedVariant?.price && <Money data={selectedVariant?.price} />
+      )}
+    </div>
+  );
+}
+
+function SellingPlanSelector({
+  product,
+  selectedSellingPlan,
+}: {
+  product: ProductFragment;
+  selectedSellingPlan: SellingPlanFragment | null;
+}) {
+  const [searchParams] = useSearchParams();
+  const {pathname} = useLocation();
+  const {sellingPlanGroups, requiresSellingPlan} = product;
+  const {t} = useTranslation();
+
+  if (!sellingPlanGroups.nodes.length) return null;
+
+  const getPlanUrl = (sellingPlanId: string | null) => {
+    const params = new URLSearchParams(searchParams);
+    if (sellingPlanId) {
+      params.set(SELLING_PLAN_PARAM, sellingPlanId);
+    } else {
+      params.delete(SELLING_PLAN_PARAM);
+    }
+    return `${pathname}?${params.toString()}`;
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <h5>{t('product.purchaseOptions')}</h5>
+      <div className="flex flex-col gap-2" role="radiogroup">
+        {!requiresSellingPlan && (
+          <Link
+            aria-checked={!selectedSellingPlan}
+            className={`
+              ${buttonVariants({ variant: !selectedSellingPlan ? 'secondary' : 'outline' })}
+              !justify-start
+            `}
+            preventScrollReset
+            replace
+            role="radio"
+            to={getPlanUrl(null)}
+          >
+            <Icon
+              icon={!selectedSellingPlan ? 'lucide:check-circle' : 'lucide:circle'}
+              className="w-4 h-4 mr-2"
+            />
+            {t('product.oneTimePurchase')}
+          </Link>
+        )}
+        {sellingPlanGroups.nodes.map((group) => {
+          const isGroupActive = group.sellingPlans.nodes.some(
+            (plan) => plan.id === selectedSellingPlan?.id,
+          );
+          return (
+            <div className="flex flex-col gap-2" key={group.name}>
+              <Link
+                aria-checked={isGroupActive}
+                className={`
+                  ${buttonVariants({ variant: isGroupActive ? 'secondary' : 'outline' })}
+                  !justify-start
+                `}
+                preventScrollReset
+                replace
+                role="radio"
+                to={getPlanUrl(
+                  isGroupActive
+                    ? selectedSellingPlan!.id
+                    : group.sellingPlans.nodes[0]?.id ?? null,
+                )}
+              >
+                <Icon
+                  icon={isGroupActive ? 'lucide:check-circle' : 'lucide:circle'}
+                  className="w-4 h-4 mr-2"
+                />
+                {group.name}
+                <SellingPlanSavings plan={group.sellingPlans.nodes[0]} />
+              </Link>
+              {isGroupActive && group.sellingPlans.nodes.length > 1 && (
+                <div className="flex flex-wrap gap-2 pl-6">
+                  {group.sellingPlans.nodes.map((plan) => (
+                    <Link
+                      aria-current={plan.id === selectedSellingPlan?.id}
+                      className={buttonVariants({
+                        variant:
+                          plan.id === selectedSellingPlan?.id
+                            ? 'default'
+                            : 'outline',
+                        size: 'sm',
+                      })}
+                      key={plan.id}
+                      preventScrollReset
+                      replace
+                      to={getPlanUrl(plan.id)}
+                    >
+                      {plan.options[0]?.value ?? plan.name}
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {selectedSellingPlan?.description && (
+        <p className="text-sm text-muted-foreground">
+          {selectedSellingPlan.description}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function getSellingPlanAllocation(
+  selectedVariant: ProductFragment['selectedVariant'],
+  selectedSellingPlan?: SellingPlanFragment | null,
+) {
+  if (!selectedVariant || !selectedSellingPlan) return null;
+  return (
+    selectedVariant.sellingPlanAllocations.nodes.find(
+      (allocation) => allocation.sellingPlan.id === selectedSellingPlan.id,
+    ) ?? null
+  );
+}
+
+/**
+ * Describes the first price adjustment of a plan, e.g. "Save 10%"
+ */
+function SellingPlanSavings({plan}: {plan?: SellingPlanFragment}) {
+  const {t} = useTranslation();
+  const adjustment = plan?.priceAdjustments[0]?.adjustmentValue;
+  if (!adjustment) return null;
+
+  switch (adjustment.__typename) {
+    case 'SellingPlanPercentagePriceAdjustment':
+      return adjustment.adjustmentPercentage ? (
+        <Badge variant="destructive" className="ml-2">
+          {t('product.savePercentage', {
+            percentage: adjustment.adjustmentPercentage,
+          })}
+        </Badge>
+      ) : null;
+    case 'SellingPlanFixedAmountPriceAdjustment':
+      return Number(adjustment.adjustmentAmount.amount) ? (
+        <SellingPlanAmountSavings amount={adjustment.adjustmentAmount} />
+      ) : null;
+    default:
+      return null;
+  }
+}
+
+function SellingPlanAmountSavings({amount}: {amount: MoneyV2}) {
+  const {t} = useTranslation();
+  const {localizedString} = useMoney(amount);
+
+  return (
+    <Badge variant="destructive" className="ml-2">
+      {t('product.saveAmount', {amount: localizedString})}
+    </Badge>
+  );
+}
+
+function ProductForm({
+  product,
+  selectedVariant,
+  variants,
+  swatches,
+  selectedSellingPlan,
+}: {
+  product: ProductFragment;
+  selectedVariant: ProductFragment['selectedVariant'];
+  variants: Array<ProductVariantFragment>;
+  swatches: SwatchMap;
+  selectedSellingPlan: SellingPlanFragment | null;
+}) {
+  const {t} = useTranslation();
+  const [mode, setMode] = useState<'single' | 'grid'>('single');
+  const quantityRule = getQuantityRule(selectedVariant);
+  const [quantity, setQuantity] = useState(quantityRule.minimum);
+  const runOption = getRunOption(product);
+  const runVariants = runOption
+    ? getRunVariants({variants, selectedVariant, runOption: runOption.name})
+    : [];
+  const [gridQuantities, setGridQuantities] = useState<Record<string, number>>(
+    {},
+  );
+  const personalizationLabel = product.personalization?.value;
+  const [personalization, setPersonalization] = useState('');
+
+  // keep the quantity valid when switching to a variant with different rules
+  const [quantityVariantId, setQuantityVariantId] = useState(
+    selectedVariant?.id,
+  );
+  if (selectedVariant?.id !== quantityVariantId) {
+    setQuantityVariantId(selectedVariant?.id);
+    setQuantity((quantity) => clampQuantity(quantity, quantityRule));
+  }
+
+  const sellingPlanId = selectedSellingPlan?.id;
+  // stored as a line attribute named after the field, e.g. `Engraving`
+  const attributes =
+    personalizationLabel && personalization.trim()
+      ? [{key: personalizationLabel, value: personalization.trim()}]
+      : undefined;
+  const gridLines: CartLineInput[] = runVariants
+    .filter((variant) => (gridQuantities[variant.id] || 0) > 0)
+    .map((variant) => ({
+      merchandiseId: variant.id,
+      quantity: gridQuantities[variant.id],
+      ...(sellingPlanId && {sellingPlanId}),
+      ...(attributes && {attributes}),
+    }));
+
+  const singleLines: CartLineInput[] =
+    selectedVariant && quantity > 0
+      ? [
+          {
+            merchandiseId: selectedVariant.id,
+            quantity,
+            ...(sellingPlanId && {sellingPlanId}),
+            ...(attributes && {attributes}),
+          },
+        ]
+      : [];
+
+  // unit prices used to estimate the cart subtotal until the lines are added
+  const optimisticPrices: OptimisticPrices = Object.fromEntries(
+    runVariants.map((variant) => [variant.id, variant.price]),
+  );
+  if (selectedVariant) {
+    optimisticPrices[selectedVariant.id] =
+      getSellingPlanAllocation(selectedVariant, selectedSellingPlan)
+        ?.priceAdjustments[0]?.price ?? selectedVariant.price;
+  }
+
+  const exceedsInventory =
+    typeof selectedVariant?.quantityAvailable === 'number' &&
+    selectedVariant.quantityAvailable > 0 &&
+    quantity > selectedVariant.quantityAvailable;
+
+  return (
+    <div className="flex flex-col gap-6">
+      <VariantSelector
+        handle={product.handle}
+        options={product.options}
+        variants={variants}
+      >
+        {({option}) => (
+          <ProductOptions
+            key={option.name}
+            option={option}
+            swatches={swatches}
+          />
+        )}
+      </VariantSelector>
+      <SellingPlanSelector
+        product={product}
+        selectedSellingPlan={selectedSellingPlan}
+      />
+      {runOption && runVariants.length > 1 && (
+        <Button
+          className="self-start pl-0"
+          onClick={() => setMode(mode === 'single' ? 'grid' : 'single')}
+          type="button"
+          variant="link"
+        >
+          <Icon
+            icon={mode === 'single' ? 'lucide:layout-grid' : 'lucide:square'}
+            className="w-4 h-4 mr-2"
+          />
+          {mode === 'single'
+            ? t('product.orderMultiple', {
+                option: runOption.name.toLowerCase(),
+              })
+            : t('product.orderSingle', {option: runOption.name.toLowerCase()})}
+        </Button>
+      )}
+      {personalizationLabel && (
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="personalization">{personalizationLabel}</Label>
+          <Input
+            id="personalization"
+            maxLength={PERSONALIZATION_MAX_LENGTH}
+            onChange={(event) => setPersonalization(event.target.value)}
+            placeholder={t('product.personalizationHint', {
+              count: PERSONALIZATION_MAX_LENGTH,
+            })}
+            value={personalization}
+          />
+        </div>
+      )}
+      {mode === 'grid' && runOption ? (
+        <>
+          <VariantQuantityGrid
+            optionName={runOption.name}
+            quantities={gridQuantities}
+            onChange={(variantId, quantity) =>
+              setGridQuantities((quantities) => ({
+                ...quantities,
+                [variantId]: quantity,
+              }))
+            }
+            variants={runVariants}
+          />
+          <AddToCartButton
+            disabled={!gridLines.length}
+            lines={gridLines}
+            optimisticPrices={optimisticPrices}
+          >
+            {gridLines.length
+              ? t('product.addCountToCart', {
+                  count: gridLines.reduce(
+                    (total, line) => total + (line.quantity ?? 0),
+                    0,
+                  ),
+                })
+              : t('product.selectQuantities')}
+          </AddToCartButton>
+        </>
+      ) : (
+        <div className="flex flex-col gap-2">
+          <div className="flex flex-wrap items-center gap-3">
+            <QuantitySelector
+              disabled={!selectedVariant?.availableForSale}
+              onChange={setQuantity}
+              rule={quantityRule}
+              value={quantity}
+            />
+            <AddToCartButton
+              disabled={
+                !selectedVariant ||
+                !selectedVariant.availableForSale ||
+                exceedsInventory
+              }
+              lines={singleLines}
+              optimisticPrices={optimisticPrices}
+            >
+              {!selectedVariant?.availableForSale
+                ? t('product.soldOut')
+                : selectedSellingPlan
+                ? t('product.subscribe')
+                : t('product.addToCart')}
+            </AddToCartButton>
+          </div>
+          <QuantityHint quantity={quantity} rule={quantityRule} />
+        </div>
+      )}
+      <StoreAvailability variant={selectedVariant} />
+    </div>
+  );
+}
+
+const PERSONALIZATION_MAX_LENGTH = 40;
+
+function QuantityHint({
+  quantity,
+  rule,
+}: {
+  quantity: number;
+  rule: QuantityRule;
+}) {
+  const {t} = useTranslation();
+  const hints: string[] = [];
+
+  if (rule.minimum > 1) {
+    hints.push(t('product.quantityMinimum', {count: rule.minimum}));
+  }
+  if (rule.increment > 1) {
+    hints.push(t('product.quantityIncrement', {count: rule.increment}));
+  }
+  if (rule.maximum !== null && quantity >= rule.maximum) {
+    hints.push(t('product.quantityMaximum', {count: rule.maximum}));
+  }
+
+  if (!hints.length) return null;
+
+  return (
+    <p className="text-sm text-muted-foreground">{hints.join(' · ')}</p>
+  );
+}
+
+function VariantQuantityGrid({
+  optionName,
+  quantities,
+  onChange,
+  variants,
+}: {
+  optionName: string;
+  quantities: Record<string, number>;
+  onChange: (variantId: string, quantity: number) => void;
+  variants: Array<ProductVariantFragment>;
+}) {
+  const {t} = useTranslation();
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{optionName}</TableHead>
+          <TableHead>{t('product.price')}</TableHead>
+          <TableHead className="text-right">{t('product.quantity')}</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {variants.map((variant) => {
+          const value = variant.selectedOptions.find(
+            (option) => option.name === optionName,
+          )?.value;
+          const rule = getQuantityRule(variant);
+          return (
+            <TableRow key={variant.id}>
+              <TableCell className="font-medium">{value}</TableCell>
+              <TableCell>
+                <Money data={variant.price} />
+              </TableCell>
+              <TableCell className="flex justify-end">
+                {variant.availableForSale ? (
+                  <QuantitySelector
+                    label={t('product.optionQuantity', {value: value ?? ''})}
+                    onChange={(quantity) => onChange(variant.id, quantity)}
+                    rule={{...rule, minimum: 0}}
+                    value={quantities[variant.id] || 0}
+                  />
+                ) : (
+                  <Badge variant="outline">{t('product.soldOut')}</Badge>
+                )}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
+
+/**
+ * The option a shopper would typically buy a run of (e.g. sizes) is the last
+ * option with more than one value.
+ */
+function getRunOption(product: ProductFragment) {
+  return [...product.options]
+    .reverse()
+    .find((option) => option.values.length > 1);
+}
+
+/**
+ * Returns the variants that share every option with the selected variant,
+ * except for the run option.
+ */
+function getRunVariants({
+  variants,
+  selectedVariant,
+  runOption,
+}: {
+  variants: Array<ProductVariantFragment>;
+  selectedVariant: ProductFragment['selectedVariant'];
+  runOption: string;
+}) {
+  if (!selectedVariant) return [];
+
+  return variants.filter((variant) =>
+    variant.selectedOptions.every(
+      (option) =>
+        option.name === runOption ||
+        selectedVariant.selectedOptions.some(
+          (selected) =>
+            selected.name === option.name && selected.value === option.value,
+        ),
+    ),
+  );
+}
+
+function ProductOptions({
+  option,
+  swatches,
+}: {
+  option: VariantOption;
+  swatches: SwatchMap;
+}) {
+  const {t} = useTranslation();
+  const showSwatches = isSwatchOption(
+    swatches,
+    option.name,
+    option.values.map(({value}) => value),
+  );
+
+  return (
+    <div className="flex flex-col gap-2" key={option.name}>
+      <h5 className="flex items-center gap-1">
+        {option.name}
+        {option.values.find((value) => value.isActive) && (
+          <Badge variant="outline">
+            {option.values.find((value) => value.isActive)?.value}
+          </Badge>
+        )}
+      </h5>
+      <div className="flex flex-wrap gap-3">
+        {option.values.map(({value, isAvailable, isActive, to}) => {
+          if (showSwatches) {
+            return (
+              <Link
+                aria-current={isActive}
+                aria-disabled={!isAvailable}
+                className="rounded-full focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                key={option.name + value}
+                prefetch="intent"
+                preventScrollReset
+                replace
+                to={to}
+              >
+                <Swatch
+                  isActive={isActive}
+                  isAvailable={isAvailable}
+                  label={`${option.name}: ${value}`}
+                  swatch={getSwatch(swatches, value)}
+                  value={value}
+                />
+              </Link>
+            );
+          }
+
+          return (
+            <Link
+              aria-current={isActive}
+              aria-disabled={!isAvailable}
+              className={`
+                ${isActive ? buttonVariants({ variant: "secondary" }) : buttonVariants({ variant: "outline" })}
+                ${!isAvailable && 'line-through text-muted-foreground'}
+              `}
+              key={option.name + value}
+              prefetch="intent"
+              preventScrollReset
+              replace
+              to={to}
+            >
+              {isActive && (
+                <Icon icon="lucide:check" className="w-4 h-4 mr-2" />
+              )}
+              {value}
+              {!isAvailable && <span className="sr-only"> ({t('product.unavailable')})</span>}
+            </Link>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function AddToCartButton({
+  analytics,
+  children,
+  disabled,
+  lines,
+  onClick,
+  optimisticPrices,
+}: {
+  analytics?: unknown;
+  children: React.ReactNode;
+  disabled?: boolean;
+  lines: CartLineInput[];
+  onClick?: () => void;
+  optimisticPrices?: OptimisticPrices;
+}) {
+  const localizePath = useLocalizePath();
+
+  return (
+    <CartForm
+      route={localizePath('/cart')}
+      inputs={{lines, [OPTIMISTIC_PRICES_INPUT]: optimisticPrices}}
+      action={CartForm.ACTIONS.LinesAdd}
+    >
+      {(fetcher: FetcherWithComponents<any>) => (
+        <>
+          <input
+            name="analytics"
+            type="hidden"
+            value={JSON.stringify(analytics)}
+          />
+          <Button
+            type="submit"
+            onClick={onClick}
+            disabled={disabled || fetcher.state !== 'idle'}
+            size="lg"
+          >
+            {fetcher.state !== 'idle'
+              ? (<Icon icon="lucide:loader-2" className="w-4 h-4 mr-2 animate-spin" />)
+              : (<Icon icon="lucide:plus" className="w-4 h-4 mr-2" />)
+            }
+            {children}
+          </Button>
+          <CartFormErrors fetcher={fetcher} />
+        </>
+      )}
+    </CartForm>
+  );
+}
+
+const PRODUCT_VARIANT_FRAGMENT = `#graphql
+  fragment ProductVariant on ProductVariant {
+    availableForSale
+    compareAtPrice {
+      amount
+      currencyCode
+    }
+    id
+    image {
+      __typename
+      id
+      url
+      altText
+      width
+      height
+    }
+    price {
+      amount
+      currencyCode
+    }
+    product {
+      title
+      handle
+    }
+    quantityAvailable
+    selectedOptions {
+      name
+      value
+    }
+    sku
+    title
+    unitPrice {
+      amount
+      currencyCode
+    }
+  }
+` as const;
+
+const SELLING_PLAN_FRAGMENT = `#graphql
+  fragment ProductVariantSellingPlans on ProductVariant {
+    sellingPlanAllocations(first: 10) {
+      nodes {
+        sellingPlan {
+          id
+        }
+        priceAdjustments {
+          price {
+            amount
+            currencyCode
+          }
+          compareAtPrice {
+            amount
+            currencyCode
+          }
+          perDeliveryPrice {
+            amount
+            currencyCode
+          }
+        }
+      }
+    }
+  }
+  fragment SellingPlan on SellingPlan {
+    id
+    name
+    description
+    recurringDeliveries
+    options {
+      name
+      value
+    }
+    priceAdjustments {
+      orderCount
+      adjustmentValue {
+        __typename
+        ... on SellingPlanPercentagePriceAdjustment {
+          adjustmentPercentage
+        }
+        ... on SellingPlanFixedAmountPriceAdjustment {
+          adjustmentAmount {
+            amount
+            currencyCode
+          }
+        }
+        ... on SellingPlanFixedPriceAdjustment {
+          price {
+            amount
+            currencyCode
+          }
+        }
+      }
+    }
+  }
+` as const;
+
+const STORE_AVAILABILITY_FRAGMENT = `#graphql
+  fragment ProductVariantStoreAvailability on ProductVariant {
+    storeAvailability(first: 20) {
+      nodes {
+        available
+        pickUpTime
+        location {
+          id
+          name
+          address {
+            formatted
+          }
+        }
+      }
+    }
+  }
+` as const;
+
+const PRODUCT_FRAGMENT = `#graphql
+  fragment Product on Product {
+    id
+    title
+    vendor
+    handle
+    descriptionHtml
+    description
+    options {
+      name
+      values
+    }
+    selectedVariant: variantBySelectedOptions(selectedOptions: $selectedOptions) {
+      ...ProductVariant
+      ...ProductVariantSellingPlans
+      ...ProductVariantStoreAvailability
+    }
+    variants(first: 1) {
+      nodes {
+        ...ProductVariant
+        ...ProductVariantSellingPlans
+        ...ProductVariantStoreAvailability
+      }
+    }
+    media(first: 20) {
+      nodes {
+        ...Media
+      }
+    }
+    personalization: metafield(namespace: "custom", key: "personalization") {
+      value
+    }
+    requiresSellingPlan
+    sellingPlanGroups(first: 10) {
+      nodes {
+        name
+        options {
+          name
+          values
+        }
+        sellingPlans(first: 10) {
+          nodes {
+            ...SellingPlan
+          }
+        }
+      }
+    }
+    seo {
+      description
+      title
+    }
+  }
+  ${PRODUCT_VARIANT_FRAGMENT}
+  ${SELLING_PLAN_FRAGMENT}
+  ${STORE_AVAILABILITY_FRAGMENT}
+  ${MEDIA_FRAGMENT}
+` as const;
+
+const PRODUCT_QUERY = `#graphql
+  query Product(
+    $country: CountryCode
+    $handle: String!
+    $language: LanguageCode
+    $selectedOptions: [SelectedOptionInput!]!
+  ) @inContext(country: $country, language: $language) {
+    product(handle: $handle) {
+      ...Product
+    }
+  }
+  ${PRODUCT_FRAGMENT}
+` as const;
+
+const PRODUCT_VARIANTS_FRAGMENT = `#graphql
+  fragment ProductVariants on Product {
+    variants(first: 250) {
+      nodes {
+        ...ProductVariant
+      }
+    }
+  }
+  ${PRODUCT_VARIANT_FRAGMENT}
+` as const;
+
+const VARIANTS_QUERY = `#graphql
+  ${PRODUCT_VARIANTS_FRAGMENT}
+  query ProductVariants(
+    $country: CountryCode
+    $language: LanguageCode
+    $handle: String!
+  ) @inContext(country: $country, language: $language) {
+    product(handle: $handle) {
+      ...ProductVariants
+    }
+  }
+` as const;
+
+const RECOMMENDATIONS_QUERY = `#graphql
+  query ProductRecommendations(
+    $country: CountryCode
+    $language: LanguageCode
+    $productId: ID!
+  ) @inContext(country: $country, language: $language) {
+    complementary: productRecommendations(
+      productId: $productId
+      intent: COMPLEMENTARY
+    ) {
+      ...ProductCard
+    }
+    related: productRecommendations(productId: $productId, intent: RELATED) {
+      ...ProductCard
+    }
+  }
+  ${PRODUCT_CARD_FRAGMENT}
+` as const;
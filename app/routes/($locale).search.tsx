@@ -3,9 +3,10 @@ import { useLoaderData, type V2_MetaFunction } from '@remix-run/react';
 import {getPaginationVariables} from '@shopify/hydrogen';
 
 import {SearchForm, SearchResults, NoSearchResults} from '~/components/Search';
+import {getSeoMeta} from '~/lib/seo';
 
-export const meta: V2_MetaFunction = () => {
-  return [{title: `Hydrogen | Search`}];
+export const meta: V2_MetaFunction = (args) => {
+  return getSeoMeta(args, {title: 'Search', noindex: true});
 };
 
 export async function loader({request, context}: LoaderArgs) {
@@ -0,0 +1,21 @@
+import {Outlet} from '@remix-run/react';
+import type {LoaderArgs} from '@shopify/remix-oxygen';
+
+/**
+ * Parent of every localized route. A first path segment that is not in the
+ * locale registry, e.g. `/xx-yy/products/shoe`, is a 404 rather than a page
+ * silently served in the default locale.
+ */
+export async function loader({params, context}: LoaderArgs) {
+  const {pathPrefix} = context.storefront.i18n;
+
+  if (params.locale && `/${params.locale.toLowerCase()}` !== pathPrefix) {
+    throw new Response(`${params.locale} not found`, {status: 404});
+  }
+
+  return null;
+}
+
+export default function LocaleLayout() {
+  return <Outlet />;
+}
@@ -1,29 +0,0 @@
-import { json, redirect, type ActionArgs } from '@shopify/remix-oxygen';
-import { type V2_MetaFunction } from '@remix-run/react';
-
-export const meta: V2_MetaFunction = () => {
-  return [{title: 'Logout'}];
-};
-
-export async function loader() {
-  return redirect('/account/login');
-}
-
-export async function action({request, context}: ActionArgs) {
-  const {session} = context;
-  session.unset('customerAccessToken');
-
-  if (request.method !== 'POST') {
-    return json({error: 'Method not allowed'}, {status: 405});
-  }
-
-  return redirect('/', {
-    headers: {
-      'Set-Cookie': await session.commit(),
-    },
-  });
-}
-
-export default function Logout() {
-  return null;
-}
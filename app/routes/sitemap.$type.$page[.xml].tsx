@@ -0,0 +1,238 @@
+import type {AppLoadContext, LoaderArgs} from '@shopify/remix-oxygen';
+import {
+  SITEMAP_PAGE_SIZE,
+  getSitemapCursors,
+  isSitemapType,
+  renderUrlSet,
+  sitemapResponse,
+  type SitemapEntry,
+  type SitemapType,
+} from '~/lib/sitemap';
+
+/**
+ * One page of a resource type, e.g. `/sitemap/products/2.xml` lists
+ * products 251 to 500
+ */
+export async function loader({request, params, context}: LoaderArgs) {
+  const {storefront} = context;
+  const {type} = params;
+  const page = Number(params.page);
+
+  if (!isSitemapType(type) || !Number.isInteger(page) || page < 1) {
+    throw new Response('Sitemap not found', {status: 404});
+  }
+
+  const cursors = await getSitemapCursors(context, type);
+  const after = cursors[page - 1];
+
+  if (after === undefined) {
+    throw new Response('Sitemap not found', {status: 404});
+  }
+
+  const entries = await getEntries(storefront, type, after);
+
+  return sitemapResponse(renderUrlSet({entries, requestUrl: request.url}));
+}
+
+async function getEntries(
+  storefront: AppLoadContext['storefront'],
+  type: SitemapType,
+  after: string | null,
+): Promise<SitemapEntry[]> {
+  const options = {
+    variables: {first: SITEMAP_PAGE_SIZE, after},
+    cache: storefront.CacheLong(),
+  };
+
+  switch (type) {
+    case 'products': {
+      const {products} = await storefront.query(
+        SITEMAP_PRODUCTS_QUERY,
+        options,
+      );
+      return products.nodes
+        .filter((product) => product.onlineStoreUrl)
+        .map((product) => ({
+          path: `/products/${product.handle}`,
+          lastMod: product.updatedAt,
+          changeFreq: 'daily',
+          images: product.images.nodes.map((image) => ({
+            url: image.url,
+            title: product.title,
+            caption: image.altText,
+          })),
+        }));
+    }
+    case 'collections': {
+      const {collections} = await storefront.query(
+        SITEMAP_COLLECTIONS_QUERY,
+        options,
+      );
+      return collections.nodes
+        .filter((collection) => collection.onlineStoreUrl)
+        .map((collection) => ({
+          path: `/collections/${collection.handle}`,
+          lastMod: collection.updatedAt,
+          changeFreq: 'daily',
+          images: collection.image
+            ? [
+                {
+                  url: collection.image.url,
+                  title: collection.title,
+                  caption: collection.image.altText,
+                },
+              ]
+            : [],
+        }));
+    }
+    case 'pages': {
+      const {pages} = await storefront.query(SITEMAP_PAGES_QUERY, options);
+      return pages.nodes
+        .filter((page) => page.onlineStoreUrl)
+        .map((page) => ({
+          path: `/pages/${page.handle}`,
+          lastMod: page.updatedAt,
+          changeFreq: 'weekly',
+        }));
+    }
+    case 'blogs': {
+      const {blogs} = await storefront.query(SITEMAP_BLOGS_QUERY, options);
+      return blogs.nodes
+        .filter((blog) => blog.onlineStoreUrl)
+        .map((blog) => ({
+          path: `/blogs/${blog.handle}`,
+          changeFreq: 'weekly',
+        }));
+    }
+    case 'articles': {
+      const {articles} = await storefront.query(
+        SITEMAP_ARTICLES_QUERY,
+        options,
+      );
+      return articles.nodes
+        .filter((article) => article.onlineStoreUrl)
+        .map((article) => ({
+          path: `/blogs/${article.blog.handle}/${article.handle}`,
+          // articles only expose their publication date
+          lastMod: article.publishedAt,
+          changeFreq: 'monthly',
+          images: article.image
+            ? [
+                {
+                  url: article.image.url,
+                  title: article.title,
+                  caption: article.image.altText,
+                },
+              ]
+            : [],
+        }));
+    }
+  }
+}
+
+const SITEMAP_PRODUCTS_QUERY = `#graphql
+  query SitemapProducts(
+    $first: Int!
+    $after: String
+    $language: LanguageCode
+  ) @inContext(language: $language) {
+    products(
+      first: $first
+      after: $after
+      query: "published_status:'online_store:visible'"
+    ) {
+      nodes {
+        updatedAt
+        handle
+        onlineStoreUrl
+        title
+        images(first: 10) {
+          nodes {
+            url
+            altText
+          }
+        }
+      }
+    }
+  }
+` as const;
+
+const SITEMAP_COLLECTIONS_QUERY = `#graphql
+  query SitemapCollections(
+    $first: Int!
+    $after: String
+    $language: LanguageCode
+  ) @inContext(language: $language) {
+    collections(
+      first: $first
+      after: $after
+      query: "published_status:'online_store:visible'"
+    ) {
+      nodes {
+        updatedAt
+        handle
+        onlineStoreUrl
+        title
+        image {
+          url
+          altText
+        }
+      }
+    }
+  }
+` as const;
+
+const SITEMAP_PAGES_QUERY = `#graphql
+  query SitemapPages(
+    $first: Int!
+    $after: String
+    $language: LanguageCode
+  ) @inContext(language: $language) {
+    pages(first: $first, after: $after, query: "published_status:'published'") {
+      nodes {
+        updatedAt
+        handle
+        onlineStoreUrl
+      }
+    }
+  }
+` as const;
+
+const SITEMAP_BLOGS_QUERY = `#graphql
+  query SitemapBlogs(
+    $first: Int!
+    $after: String
+    $language: LanguageCode
+  ) @inContext(language: $language) {
+    blogs(first: $first, after: $after) {
+      nodes {
+        handle
+        onlineStoreUrl
+      }
+    }
+  }
+` as const;
+
+const SITEMAP_ARTICLES_QUERY = `#graphql
+  query SitemapArticles(
+    $first: Int!
+    $after: String
+    $language: LanguageCode
+  ) @inContext(language: $language) {
+    articles(first: $first, after: $after) {
+      nodes {
+        publishedAt
+        handle
+        onlineStoreUrl
+        title
+        blog {
+          handle
+        }
+        image {
+          url
+          altText
+        }
+      }
+    }
+  }
+` as const;
@@ -1,6 +1,19 @@
-import {useLocation} from '@remix-run/react';
+import {useFetchers, useLocation, useMatches} from '@remix-run/react';
 import type {SelectedOption} from '@shopify/hydrogen/storefront-api-types';
-import {useMemo} from 'react';
+import {useCallback, useMemo} from 'react';
+import type {CartApiQueryFragment} from 'storefrontapi.generated';
+import {
+  applyCartActions,
+  getPendingCartActions,
+  type OptimisticCart,
+} from '~/lib/cart';
+import {DEFAULT_LOCALE, localizePath, type I18nLocale} from '~/lib/i18n';
+import {
+  translate,
+  type Catalog,
+  type TranslationKey,
+  type TranslationValues,
+} from '~/lib/translations';
 
 export function useVariantUrl(
   handle: string,
@@ -18,6 +31,73 @@ export function useVariantUrl(
   }, [handle, selectedOptions, pathname]);
 }
 
+/**
+ * Prefixes a path (defaults to the current one) with the storefront origin.
+ * Paths are localized with the current locale.
+ */
+export function useAbsoluteUrl(path?: string) {
+  const [root] = useMatches();
+  const {pathname} = useLocation();
+  const localizePath = useLocalizePath();
+  const baseUrl: string = root?.data?.baseUrl ?? '';
+
+  return baseUrl + (path ? localizePath(path) : pathname);
+}
+
+/**
+ * The locale of the current request, as resolved by the root loader
+ */
+export function useSelectedLocale(): I18nLocale {
+  const [root] = useMatches();
+  return root?.data?.selectedLocale ?? DEFAULT_LOCALE;
+}
+
+/**
+ * Returns a function prefixing internal paths with the current locale
+ */
+export function useLocalizePath() {
+  const locale = useSelectedLocale();
+  return useCallback((path: string) => localizePath(path, locale), [locale]);
+}
+
+/**
+ * Translates UI strings with the catalog loaded by the root loader
+ *
+ * @example
+ * ```tsx
+ * const {t} = useTranslation();
+ * t('cart.quantity', {quantity: line.quantity});
+ * ```
+ */
+export function useTranslation() {
+  const [root] = useMatches();
+  const {language} = useSelectedLocale();
+  const catalog: Partial<Catalog> = root?.data?.translations ?? {};
+
+  const t = useCallback(
+    (key: TranslationKey, values?: TranslationValues) =>
+      translate(catalog, language, key, values),
+    [catalog, language],
+  );
+
+  return {t, language};
+}
+
+/**
+ * The cart with the in-flight `CartForm` submissions applied, so quantities,
+ * the item count and the subtotal change before the `/cart` action returns
+ */
+export function useOptimisticCart(
+  cart: CartApiQueryFragment | null,
+): OptimisticCart | null {
+  const fetchers = useFetchers();
+
+  return useMemo(
+    () => cart && applyCartActions(cart, getPendingCartActions(fetchers)),
+    [cart, fetchers],
+  );
+}
+
 export function getVariantUrl({
   handle,
   pathname,
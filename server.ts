@@ -5,6 +5,7 @@ import {
   cartSetIdDefault,
   createCartHandler,
   createStorefrontClient,
+  createWithCache,
   storefrontRedirect,
 } from '@shopify/hydrogen';
 import {
@@ -14,10 +15,7 @@ import {
   type SessionStorage,
   type Session,
 } from '@shopify/remix-oxygen';
-import type {
-  LanguageCode,
-  CountryCode,
-} from '@shopify/hydrogen/storefront-api-types';
+import {getLocaleFromRequest} from '~/lib/i18n';
 
 /**
  * Export a fetch handler in module format.
@@ -42,13 +40,18 @@ export default {
         HydrogenSession.init(request, [env.SESSION_SECRET]),
       ]);
 
+      /**
+       * Cache the results of work other than Storefront API queries
+       */
+      const withCache = createWithCache({cache, waitUntil});
+
       /**
        * Create Hydrogen's Storefront client.
        */
       const {storefront} = createStorefrontClient({
         cache,
         waitUntil,
-        i18n: getLocaleFromRequest(request),
+        i18n: getLocaleFromRequest(request, session.get('countryCode')),
         publicStorefrontToken: env.PUBLIC_STOREFRONT_API_TOKEN,
         privateStorefrontToken: env.PRIVATE_STOREFRONT_API_TOKEN,
         storeDomain: env.PUBLIC_STORE_DOMAIN,
@@ -65,6 +68,7 @@ export default {
         getCartId: cartGetIdDefault(request.headers),
         setCartId: cartSetIdDefault(),
         cartQueryFragment: CART_QUERY_FRAGMENT,
+        cartMutateFragment: CART_MUTATE_FRAGMENT,
       });
 
       /**
@@ -74,7 +78,14 @@ export default {
       const handleRequest = createRequestHandler({
         build: remixBuild,
         mode: process.env.NODE_ENV,
-        getLoadContext: () => ({session, storefront, env, cart, waitUntil}),
+        getLoadContext: () => ({
+          session,
+          storefront,
+          env,
+          cart,
+          waitUntil,
+          withCache,
+        }),
       });
 
       const response = await handleRequest(request);
@@ -162,6 +173,20 @@ const CART_QUERY_FRAGMENT = `#graphql
     currencyCode
     amount
   }
+  fragment CartDiscountAllocation on CartDiscountAllocation {
+    discountedAmount {
+      ...Money
+    }
+    ... on CartCodeDiscountAllocation {
+      code
+    }
+    ... on CartAutomaticDiscountAllocation {
+      title
+    }
+    ... on CartCustomDiscountAllocation {
+      title
+    }
+  }
   fragment CartLine on CartLine {
     id
     quantity
@@ -169,6 +194,9 @@ const CART_QUERY_FRAGMENT = `#graphql
       key
       value
     }
+    discountAllocations {
+      ...CartDiscountAllocation
+    }
     cost {
       totalAmount {
         ...Money
@@ -184,6 +212,7 @@ const CART_QUERY_FRAGMENT = `#graphql
       ... on ProductVariant {
         id
         availableForSale
+        quantityAvailable
         compareAtPrice {
           ...Money
         }
@@ -211,6 +240,20 @@ const CART_QUERY_FRAGMENT = `#graphql
         }
       }
     }
+    sellingPlanAllocation {
+      sellingPlan {
+        id
+        name
+      }
+      priceAdjustments {
+        price {
+          ...Money
+        }
+        perDeliveryPrice {
+          ...Money
+        }
+      }
+    }
   }
   fragment CartApiQuery on Cart {
     id
@@ -227,6 +270,13 @@ const CART_QUERY_FRAGMENT = `#graphql
       }
       email
       phone
+      deliveryAddressPreferences {
+        ... on MailingAddress {
+          countryCodeV2
+          province
+          zip
+        }
+      }
     }
     lines(first: $numCartLines) {
       nodes {
@@ -256,26 +306,22 @@ const CART_QUERY_FRAGMENT = `#graphql
       code
       applicable
     }
+    discountAllocations {
+      ...CartDiscountAllocation
+    }
   }
 ` as const;
 
-export type I18nLocale = {language: LanguageCode; country: CountryCode};
-
-function getLocaleFromRequest(request: Request): I18nLocale {
-  const defaultLocale: I18nLocale = {language: 'EN', country: 'US'};
-  const supportedLocales = {
-    ES: 'ES',
-    FR: 'FR',
-    DE: 'DE',
-    JP: 'JA',
-  } as Record<CountryCode, LanguageCode>;
-
-  const url = new URL(request.url);
-  const firstSubdomain = url.hostname
-    .split('.')[0]
-    ?.toUpperCase() as keyof typeof supportedLocales;
+// returned by every cart mutation, lets forms report on the discount codes
+const CART_MUTATE_FRAGMENT = `#graphql
+  fragment CartApiMutation on Cart {
+    id
+    totalQuantity
+    discountCodes {
+      code
+      applicable
+    }
+  }
+` as const;
 
-  return supportedLocales[firstSubdomain]
-    ? {language: supportedLocales[firstSubdomain], country: firstSubdomain}
-    : defaultLocale;
-}
+export type {I18nLocale} from '~/lib/i18n';